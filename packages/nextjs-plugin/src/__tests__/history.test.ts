@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createEventHistory, createExpiringMap } from "../history";
+
+const createEvent = (seq: number) => ({ seq });
+
+describe("createEventHistory", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(1000);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should evict the oldest events once the count limit is exceeded", () => {
+		const history = createEventHistory({ maxEvents: 3 });
+		for (let seq = 1; seq <= 5; seq++) history.push(createEvent(seq), 10);
+
+		expect(history.getAll()).toEqual([3, 4, 5].map(createEvent));
+		expect(history.droppedCount).toBe(2);
+		expect(history.size).toBe(3);
+		expect(history.totalBytes).toBe(30);
+	});
+
+	it("should evict the oldest events once the size limit is exceeded", () => {
+		const history = createEventHistory({ maxBytes: 25 });
+		history.push(createEvent(1), 10);
+		history.push(createEvent(2), 10);
+		history.push(createEvent(3), 10);
+
+		expect(history.getAll()).toEqual([2, 3].map(createEvent));
+		expect(history.totalBytes).toBe(20);
+	});
+
+	it("should keep events in order after wrapping around many times", () => {
+		const history = createEventHistory({ maxEvents: 4 });
+		for (let seq = 1; seq <= 100; seq++) history.push(createEvent(seq), 1);
+
+		expect(history.getAll()).toEqual([97, 98, 99, 100].map(createEvent));
+		expect(history.getAfter(98)).toEqual([99, 100].map(createEvent));
+		expect(history.findLast((event) => event.seq < 99)).toEqual(
+			createEvent(98),
+		);
+		expect(history.droppedCount).toBe(96);
+	});
+
+	it("should page events by the time they were recorded", () => {
+		const history = createEventHistory();
+		history.push(createEvent(1), 1);
+		vi.setSystemTime(2000);
+		history.push(createEvent(2), 1);
+		history.push(createEvent(3), 1);
+		vi.setSystemTime(3000);
+		history.push(createEvent(4), 1);
+
+		expect(history.getSince(0)).toEqual([1, 2, 3, 4].map(createEvent));
+		// Events recorded exactly at the timestamp were seen already
+		expect(history.getSince(1000)).toEqual([2, 3, 4].map(createEvent));
+		expect(history.getSince(2000)).toEqual([createEvent(4)]);
+		expect(history.getSince(3000)).toEqual([]);
+	});
+
+	it("should not return evicted events when paging", () => {
+		const history = createEventHistory({ maxEvents: 2 });
+		history.push(createEvent(1), 1);
+		vi.setSystemTime(2000);
+		history.push(createEvent(2), 1);
+		history.push(createEvent(3), 1);
+
+		expect(history.getSince(0)).toEqual([2, 3].map(createEvent));
+		expect(history.getAfter(0)).toEqual([2, 3].map(createEvent));
+	});
+
+	it("should forget everything when cleared", () => {
+		const history = createEventHistory({ maxEvents: 1 });
+		history.push(createEvent(1), 1);
+		history.push(createEvent(2), 1);
+		history.clear();
+
+		expect(history.getAll()).toEqual([]);
+		expect(history.droppedCount).toBe(0);
+		expect(history.totalBytes).toBe(0);
+	});
+});
+
+describe("createExpiringMap", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should forget entries which weren't updated within the TTL", () => {
+		vi.useFakeTimers();
+		const map = createExpiringMap<string, number>(100);
+		map.set("a", 1);
+		map.set("b", 2);
+		vi.advanceTimersByTime(60);
+		map.set("a", 3);
+		vi.advanceTimersByTime(60);
+		map.set("c", 4);
+
+		expect(map.get("a")).toBe(3);
+		expect(map.get("b")).toBeUndefined();
+		expect(map.size).toBe(2);
+	});
+});
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import type { RequestSpan, ServerSpan } from "@/packages/types";
+import { createRedactor, REDACTED_VALUE } from "../redaction";
+
+const createRequest = (request: Partial<RequestSpan> = {}): RequestSpan => ({
+	id: "request-1",
+	spanId: undefined,
+	traceId: undefined,
+	parentSpan: undefined,
+	start: 0,
+	method: "POST",
+	url: "https://api.example.com/users",
+	headers: {},
+	body: undefined,
+	...request,
+});
+
+describe("createRedactor", () => {
+	describe("headers", () => {
+		it("should mask default headers regardless of their case", () => {
+			const redacted = createRedactor({}).request(
+				createRequest({
+					headers: {
+						Authorization: "Bearer secret",
+						cookie: "session=secret",
+						accept: "application/json",
+					},
+				}),
+			);
+
+			expect(redacted.headers).toEqual({
+				Authorization: REDACTED_VALUE,
+				cookie: REDACTED_VALUE,
+				accept: "application/json",
+			});
+			expect(redacted.redacted).toEqual({
+				headers: ["Authorization", "cookie"],
+				query: [],
+				body: [],
+			});
+		});
+
+		it("should mask configured headers in addition to the default ones", () => {
+			const redacted = createRedactor({ headers: ["X-Session-Token"] }).request(
+				createRequest({
+					headers: { "x-session-token": "secret", "x-api-key": "secret" },
+				}),
+			);
+
+			expect(redacted.headers).toEqual({
+				"x-session-token": REDACTED_VALUE,
+				"x-api-key": REDACTED_VALUE,
+			});
+		});
+
+		it("should keep everything when redaction is disabled", () => {
+			const request = createRequest({
+				headers: { authorization: "Bearer secret" },
+			});
+
+			expect(createRedactor(false).request(request)).toEqual({
+				...request,
+				redacted: undefined,
+			});
+		});
+	});
+
+	describe("query parameters", () => {
+		it("should mask configured query parameters", () => {
+			const redacted = createRedactor({ queryParams: ["token"] }).request(
+				createRequest({
+					url: "https://api.example.com/users?token=abc&page=2",
+				}),
+			);
+
+			expect(redacted.url).toBe(
+				"https://api.example.com/users?token=%5BREDACTED%5D&page=2",
+			);
+			expect(redacted.redacted?.query).toEqual(["token"]);
+		});
+
+		it("should keep URLs without masked parameters as they are", () => {
+			const url = "https://api.example.com/users?page=2&sort=name%20asc";
+			const redacted = createRedactor({ queryParams: ["token"] }).request(
+				createRequest({ url }),
+			);
+
+			expect(redacted.url).toBe(url);
+			expect(redacted.redacted).toBeUndefined();
+		});
+	});
+
+	describe("body paths", () => {
+		it("should mask nested and wildcard paths of JSON bodies", () => {
+			const redacted = createRedactor({
+				bodyPaths: ["$.password", "$.users[*].token", "$['profile'].email"],
+			}).request(
+				createRequest({
+					body: JSON.stringify({
+						password: "secret",
+						users: [{ token: "a", name: "Ada" }, { token: "b" }],
+						profile: { email: "ada@example.com" },
+					}),
+				}),
+			);
+
+			expect(JSON.parse(redacted.body ?? "")).toEqual({
+				password: REDACTED_VALUE,
+				users: [
+					{ token: REDACTED_VALUE, name: "Ada" },
+					{ token: REDACTED_VALUE },
+				],
+				profile: { email: REDACTED_VALUE },
+			});
+			expect(redacted.redacted?.body).toEqual([
+				"$.password",
+				"$.users[*].token",
+				"$['profile'].email",
+			]);
+		});
+
+		it("should withhold truncated bodies entirely", () => {
+			const redacted = createRedactor({ bodyPaths: ["$.password"] }).request(
+				createRequest({ body: '{"password":"sec', bodyTruncated: true }),
+			);
+
+			expect(redacted.body).toBe(REDACTED_VALUE);
+			expect(redacted.redacted?.body).toEqual(["$"]);
+		});
+
+		it("should keep bodies which aren't JSON or are binary", () => {
+			const redactor = createRedactor({ bodyPaths: ["$.password"] });
+
+			expect(
+				redactor.request(createRequest({ body: "password=secret" })).body,
+			).toBe("password=secret");
+			expect(
+				redactor.request(
+					createRequest({ body: "cGFzc3dvcmQ=", bodyEncoding: "base64" }),
+				).body,
+			).toBe("cGFzc3dvcmQ=");
+		});
+
+		it("should withhold text chunks when body paths are masked", () => {
+			const chunk = {
+				id: "request-1",
+				index: 0,
+				timestamp: 0,
+				data: '{"password":',
+				encoding: "utf-8" as const,
+				size: 12,
+			};
+
+			expect(
+				createRedactor({ bodyPaths: ["$.password"] }).chunk(chunk),
+			).toEqual({ ...chunk, data: REDACTED_VALUE });
+			expect(createRedactor({}).chunk(chunk)).toEqual(chunk);
+		});
+	});
+
+	describe("span attributes", () => {
+		const span: ServerSpan = {
+			id: "GET /users",
+			spanId: "span-1",
+			traceId: "trace-1",
+			parentSpan: undefined,
+			start: 0,
+			attributes: {
+				"http.url": "https://api.example.com/users?token=abc",
+				"url.full": "https://api.example.com/users?token=abc&page=2",
+				"http.target": "/users?token=abc",
+				"url.query": "token=abc",
+				"http.method": "GET",
+			},
+		};
+
+		it("should mask query parameters in URL attributes", () => {
+			expect(
+				createRedactor({ queryParams: ["token"] }).span(span).attributes,
+			).toEqual({
+				"http.url": "https://api.example.com/users?token=%5BREDACTED%5D",
+				"url.full": "https://api.example.com/users?token=%5BREDACTED%5D&page=2",
+				"http.target": "/users?token=%5BREDACTED%5D",
+				"url.query": "token=%5BREDACTED%5D",
+				"http.method": "GET",
+			});
+		});
+
+		it("should keep targets without a query as they are", () => {
+			expect(
+				createRedactor({ queryParams: ["token"] }).span({
+					...span,
+					attributes: { "http.target": "/users" },
+				}).attributes,
+			).toEqual({ "http.target": "/users" });
+		});
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { ServerSpan } from "@/packages/types";
+import {
+	createTrafficMatcher,
+	getRequestTarget,
+	getSpanTarget,
+	isTrafficFilter,
+} from "../traffic-filter";
+
+describe("createTrafficMatcher", () => {
+	const target = getRequestTarget(
+		"https://api.example.com:8443/users/1?page=2",
+		"GET",
+	);
+
+	it("should keep everything without rules", () => {
+		expect(createTrafficMatcher()(target)).toBe(true);
+	});
+
+	it("should match URLs, paths, hosts and methods with wildcards", () => {
+		const matches = (pattern: Parameters<typeof createTrafficMatcher>[0]) =>
+			createTrafficMatcher(pattern)(target);
+
+		expect(matches({ include: [{ url: "https://api.example.com*" }] })).toBe(
+			true,
+		);
+		expect(matches({ include: [{ url: "/users/*" }] })).toBe(true);
+		expect(matches({ include: [{ url: "/posts/*" }] })).toBe(false);
+		// Port is optional in host patterns
+		expect(matches({ include: [{ host: "*.example.com" }] })).toBe(true);
+		expect(matches({ include: [{ method: ["post", "get"] }] })).toBe(true);
+		expect(
+			matches({ include: [{ host: "api.example.com", method: "POST" }] }),
+		).toBe(false);
+	});
+
+	it("should escape characters of regular expressions", () => {
+		expect(
+			createTrafficMatcher({ include: [{ url: "/users/1?page=2" }] })(target),
+		).toBe(true);
+		expect(
+			createTrafficMatcher({ include: [{ url: "/users/1?page=(2)" }] })(target),
+		).toBe(false);
+	});
+
+	it("should let exclusions take precedence", () => {
+		expect(
+			createTrafficMatcher({
+				include: [{ host: "api.example.com" }],
+				exclude: [{ url: "*/users/*" }],
+			})(target),
+		).toBe(false);
+	});
+});
+
+describe("isTrafficFilter", () => {
+	it("should accept well-formed filters", () => {
+		expect(isTrafficFilter({})).toBe(true);
+		expect(
+			isTrafficFilter({
+				include: [{ url: "/api/*", method: ["GET"] }],
+				exclude: [{ host: "*.sentry.io" }],
+			}),
+		).toBe(true);
+	});
+
+	it("should reject malformed filters", () => {
+		expect(isTrafficFilter(null)).toBe(false);
+		expect(isTrafficFilter({ include: "x" })).toBe(false);
+		expect(isTrafficFilter({ include: [{ url: 5 }] })).toBe(false);
+		expect(isTrafficFilter({ exclude: [{ method: [1] }] })).toBe(false);
+	});
+});
+
+describe("getSpanTarget", () => {
+	const createSpan = (attributes: ServerSpan["attributes"]): ServerSpan => ({
+		id: "span",
+		spanId: "span-1",
+		traceId: "trace-1",
+		parentSpan: undefined,
+		start: 0,
+		attributes,
+	});
+
+	it("should read targets of old and new semantic conventions", () => {
+		expect(
+			getSpanTarget(
+				createSpan({
+					"url.full": "https://api.example.com/users",
+					"http.request.method": "GET",
+				}),
+			),
+		).toEqual({
+			url: "https://api.example.com/users",
+			host: "api.example.com",
+			path: "/users",
+			method: "GET",
+		});
+		expect(
+			getSpanTarget(
+				createSpan({
+					"http.target": "/users",
+					"http.method": "POST",
+					"http.host": "localhost:3000",
+				}),
+			),
+		).toEqual({ host: "localhost:3000", path: "/users", method: "POST" });
+	});
+
+	it("should skip spans which aren't HTTP requests", () => {
+		expect(getSpanTarget(createSpan({ "db.system": "postgresql" }))).toBe(
+			undefined,
+		);
+	});
+});
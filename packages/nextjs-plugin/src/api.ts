@@ -0,0 +1,134 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type {
+	BroadcastedServerEvents,
+	RequestSpan,
+	ResponseSpan,
+	Sequenced,
+} from "@/packages/types";
+import type { EventHistory } from "./history";
+import { PLUGIN_VERSION } from "./version";
+
+interface ApiContext {
+	history: EventHistory<Sequenced<BroadcastedServerEvents>>;
+	getClientsCount: () => number;
+	isCapturePaused: () => boolean;
+}
+
+const sendJson = (res: ServerResponse, status: number, data: unknown) => {
+	res.writeHead(status, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(data));
+};
+
+const findBody = (
+	history: ApiContext["history"],
+	id: string,
+	source: "request" | "response",
+): RequestSpan | ResponseSpan | undefined => {
+	const event = history.findLast(
+		(event) => event.type === source && event.data.id === id,
+	);
+	return event?.type === "request" || event?.type === "response"
+		? event.data
+		: undefined;
+};
+
+/**
+ * REST endpoints for scripts and CI checks which can't keep a WebSocket open:
+ * - `GET /health` - plugin version, uptime and history stats
+ * - `GET /events?since=<ms>` - events recorded after given timestamp
+ * - `GET /events/:id/body?source=request|response` - raw captured body
+ *
+ * @returns handler which returns `false` for unknown routes
+ */
+export const createApiHandler = ({
+	history,
+	getClientsCount,
+	isCapturePaused,
+}: ApiContext) => {
+	const startedAt = Date.now();
+
+	return (req: IncomingMessage, res: ServerResponse): boolean => {
+		const url = new URL(req.url ?? "/", "http://localhost");
+		const bodyMatch = url.pathname.match(/^\/events\/([^/]+)\/body\/?$/);
+		const isKnownRoute =
+			url.pathname === "/health" || url.pathname === "/events" || !!bodyMatch;
+
+		if (!isKnownRoute) return false;
+
+		if (req.method !== "GET") {
+			res.setHeader("Allow", "GET");
+			sendJson(res, 405, { error: "Method not allowed" });
+			return true;
+		}
+
+		if (url.pathname === "/health") {
+			sendJson(res, 200, {
+				status: "ok",
+				version: PLUGIN_VERSION,
+				uptime: Math.round((Date.now() - startedAt) / 1000),
+				clients: getClientsCount(),
+				paused: isCapturePaused(),
+				events: {
+					count: history.size,
+					dropped: history.droppedCount,
+					bytes: history.totalBytes,
+				},
+			});
+			return true;
+		}
+
+		if (url.pathname === "/events") {
+			const since = url.searchParams.get("since");
+			const sinceMs = since === null ? undefined : Number(since);
+			if (sinceMs !== undefined && !Number.isFinite(sinceMs)) {
+				sendJson(res, 400, {
+					error: "`since` must be a timestamp in milliseconds",
+				});
+				return true;
+			}
+
+			sendJson(res, 200, {
+				events:
+					sinceMs === undefined ? history.getAll() : history.getSince(sinceMs),
+				dropped: history.droppedCount,
+			});
+			return true;
+		}
+
+		if (!bodyMatch) return false;
+
+		const source = url.searchParams.get("source") ?? "response";
+		if (source !== "request" && source !== "response") {
+			sendJson(res, 400, { error: "`source` must be request or response" });
+			return true;
+		}
+
+		let id: string;
+		try {
+			id = decodeURIComponent(bodyMatch[1]);
+		} catch {
+			sendJson(res, 400, { error: "Event ID is not a valid URI component" });
+			return true;
+		}
+
+		const span = findBody(history, id, source);
+		if (span?.body === undefined) {
+			sendJson(res, 404, { error: `No ${source} body captured` });
+			return true;
+		}
+
+		const contentType = Object.entries(span.headers).find(
+			([key]) => key.toLowerCase() === "content-type",
+		)?.[1];
+		res.writeHead(200, {
+			"Content-Type": contentType ?? "application/octet-stream",
+			...(span.bodyTruncated ? { "X-Body-Truncated": "true" } : {}),
+		});
+		res.end(
+			span.bodyEncoding === "base64"
+				? Buffer.from(span.body, "base64")
+				: span.body,
+		);
+		return true;
+	};
+};
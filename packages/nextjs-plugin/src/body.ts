@@ -0,0 +1,191 @@
+import type { WebSocketData } from "@mswjs/interceptors/WebSocket";
+import type { BodyEncoding, WebSocketMessage } from "@/packages/types";
+
+export const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+export interface CapturedBody {
+	body: string | undefined;
+	bodyEncoding?: BodyEncoding;
+	bodyTruncated?: boolean;
+	// Length of the whole body in bytes, even when it was truncated
+	contentLength?: number;
+}
+
+const TEXT_CONTENT_TYPES = [
+	/^text\//,
+	/^application\/(.+\+)?json/,
+	/^application\/(.+\+)?xml/,
+	/^application\/(x-)?javascript/,
+	/^application\/ecmascript/,
+	/^application\/x-www-form-urlencoded/,
+	/^application\/graphql/,
+	/^application\/x-ndjson/,
+	/^image\/svg\+xml/,
+];
+
+/**
+ * @returns `undefined` when content type is missing or unknown
+ */
+const isTextContentType = (contentType: string | null): boolean | undefined => {
+	if (!contentType) return undefined;
+	const mimeType = contentType.split(";")[0].trim().toLowerCase();
+	if (TEXT_CONTENT_TYPES.some((pattern) => pattern.test(mimeType))) {
+		return true;
+	}
+	if (/^(image|audio|video|font)\//.test(mimeType)) return false;
+	if (
+		mimeType === "application/octet-stream" ||
+		mimeType === "application/pdf" ||
+		mimeType === "application/zip" ||
+		mimeType === "application/gzip" ||
+		mimeType === "application/wasm" ||
+		mimeType === "application/protobuf" ||
+		mimeType === "application/x-protobuf" ||
+		mimeType === "multipart/form-data"
+	) {
+		return false;
+	}
+	return undefined;
+};
+
+const isValidUtf8 = (bytes: Uint8Array) => {
+	try {
+		new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Responses which body arrives over time, e.g. Server-Sent Events or
+ * chunked LLM completions. Chunked transfer encoding alone isn't a sign of
+ * streaming, most dynamic responses and file downloads are sent that way.
+ */
+export const isStreamingResponse = (response: Response) =>
+	/^(text\/event-stream|application\/(x-)?ndjson)/i.test(
+		response.headers.get("content-type") ?? "",
+	);
+
+export interface CapturedChunk {
+	index: number;
+	data: string;
+	encoding: BodyEncoding;
+	// Size of the chunk in bytes
+	size: number;
+}
+
+/**
+ * Reads body of a cloned request or response keeping at most `maxSize` bytes
+ * in memory. Text bodies are decoded as UTF-8, binary ones are base64 encoded.
+ *
+ * @param onChunk - called for every chunk as soon as it arrives, only with
+ * the part within `maxSize`
+ */
+export const captureBody = async (
+	entity: Request | Response,
+	maxSize: number,
+	onChunk?: (chunk: CapturedChunk) => void,
+): Promise<CapturedBody> => {
+	if (!entity.body) {
+		return { body: undefined };
+	}
+
+	const reader = entity.clone().body?.getReader();
+	if (!reader) {
+		return { body: undefined };
+	}
+
+	const chunks: Uint8Array[] = [];
+	let capturedLength = 0;
+	let contentLength = 0;
+	let chunkIndex = 0;
+	// Chunks aren't inspected upfront so text is assumed unless known otherwise
+	const chunkEncoding: BodyEncoding =
+		isTextContentType(entity.headers.get("content-type")) === false
+			? "base64"
+			: "utf-8";
+	// Keeps multibyte characters split between chunks intact
+	const chunkDecoder = new TextDecoder();
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		contentLength += value.byteLength;
+
+		// Keep reading past the limit to know the full length, but drop the data
+		if (capturedLength < maxSize) {
+			const chunk = value.subarray(0, maxSize - capturedLength);
+			chunks.push(chunk);
+			capturedLength += chunk.byteLength;
+
+			onChunk?.({
+				index: chunkIndex++,
+				data:
+					chunkEncoding === "utf-8"
+						? chunkDecoder.decode(chunk, { stream: true })
+						: Buffer.from(chunk).toString("base64"),
+				encoding: chunkEncoding,
+				size: chunk.byteLength,
+			});
+		}
+	}
+
+	const bytes = Buffer.concat(chunks);
+	const bodyTruncated = contentLength > capturedLength;
+	const isText =
+		isTextContentType(entity.headers.get("content-type")) ??
+		// Truncation might cut a multibyte character (up to 4 bytes) at the end
+		isValidUtf8(
+			bodyTruncated ? bytes.subarray(0, Math.max(0, bytes.length - 3)) : bytes,
+		);
+
+	return isText
+		? {
+				body: bytes.toString("utf-8"),
+				bodyEncoding: "utf-8",
+				bodyTruncated,
+				contentLength,
+			}
+		: {
+				body: bytes.toString("base64"),
+				bodyEncoding: "base64",
+				bodyTruncated,
+				contentLength,
+			};
+};
+
+/**
+ * Text messages are kept as they are, binary ones are base64 encoded
+ */
+export const captureWebSocketData = async (
+	data: WebSocketData,
+	maxSize: number,
+): Promise<
+	Pick<WebSocketMessage, "data" | "encoding" | "size" | "truncated">
+> => {
+	if (typeof data === "string") {
+		const bytes = Buffer.from(data);
+		const truncated = bytes.byteLength > maxSize;
+		return {
+			data: truncated ? bytes.subarray(0, maxSize).toString("utf-8") : data,
+			encoding: "utf-8",
+			size: bytes.byteLength,
+			truncated,
+		};
+	}
+
+	const bytes =
+		data instanceof Blob
+			? Buffer.from(await data.arrayBuffer())
+			: ArrayBuffer.isView(data)
+				? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+				: Buffer.from(data);
+	return {
+		data: bytes.subarray(0, maxSize).toString("base64"),
+		encoding: "base64",
+		size: bytes.byteLength,
+		truncated: bytes.byteLength > maxSize,
+	};
+};
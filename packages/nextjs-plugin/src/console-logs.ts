@@ -0,0 +1,61 @@
+import { format } from "node:util";
+import { context, isSpanContextValid, trace } from "@opentelemetry/api";
+import type { LogLevel } from "@/packages/types";
+import type { LogListener } from "./log-processor";
+import { now } from "./timings";
+
+const consoleLevels = {
+	trace: "trace",
+	debug: "debug",
+	log: "info",
+	info: "info",
+	warn: "warn",
+	error: "error",
+} as const satisfies Record<string, LogLevel>;
+
+/**
+ * Forwards `console` calls made while a span is active, the output is still
+ * written to the terminal as usual
+ *
+ * @returns function restoring the original methods
+ */
+export const trackConsoleLogs = (onLog: LogListener) => {
+	// Listener may log an error itself
+	let isForwarding = false;
+
+	const restoreMethods = (
+		Object.keys(consoleLevels) as (keyof typeof consoleLevels)[]
+	).map((method) => {
+		const original = console[method];
+		console[method] = (...args: unknown[]) => {
+			original.apply(console, args);
+
+			const spanContext = trace.getSpan(context.active())?.spanContext();
+			if (isForwarding || !spanContext || !isSpanContextValid(spanContext)) {
+				return;
+			}
+
+			isForwarding = true;
+			try {
+				onLog({
+					spanId: spanContext.spanId,
+					traceId: spanContext.traceId,
+					timestamp: now(),
+					level: consoleLevels[method],
+					message: format(...args),
+					source: "console",
+				});
+			} finally {
+				isForwarding = false;
+			}
+		};
+
+		return () => {
+			console[method] = original;
+		};
+	});
+
+	return () => {
+		for (const restore of restoreMethods) restore();
+	};
+};
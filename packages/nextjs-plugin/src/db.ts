@@ -0,0 +1,86 @@
+import type { Span } from "@opentelemetry/api";
+import type { InstrumentationConfigMap } from "@opentelemetry/auto-instrumentations-node";
+import type { DbQuery, SpanAttributes } from "@/packages/types";
+
+// Attribute of the new semantic conventions, instrumentations don't set it yet
+const ROWS_ATTRIBUTE = "db.response.returned_rows";
+
+const setRows = (span: Span, rows: unknown) => {
+	if (typeof rows === "number" && Number.isFinite(rows)) {
+		span.setAttribute(ROWS_ATTRIBUTE, rows);
+	}
+};
+
+// Command replies look like `{ cursor: { firstBatch: [] } }` or `{ n: 1 }`
+const readMongoRows = (reply: unknown) => {
+	const { cursor, n } = (reply ?? {}) as {
+		cursor?: { firstBatch?: unknown };
+		n?: unknown;
+	};
+	return Array.isArray(cursor?.firstBatch) ? cursor.firstBatch.length : n;
+};
+
+/**
+ * Makes auto-instrumentations of database clients record row counts
+ */
+export const dbInstrumentationConfig: InstrumentationConfigMap = {
+	"@opentelemetry/instrumentation-pg": {
+		responseHook: (span, { data }) => setRows(span, data.rowCount),
+	},
+	"@opentelemetry/instrumentation-mysql2": {
+		responseHook: (span, { queryResults }) =>
+			setRows(
+				span,
+				Array.isArray(queryResults)
+					? queryResults.length
+					: queryResults?.affectedRows,
+			),
+	},
+	"@opentelemetry/instrumentation-mongodb": {
+		// Older drivers wrap the reply in `result`
+		responseHook: (span, { data }) =>
+			setRows(span, readMongoRows(data?.result ?? data)),
+	},
+};
+
+/**
+ * Reads database semantic convention attributes, old and new ones
+ *
+ * @returns `undefined` for spans which aren't database queries
+ */
+export const getDbQuery = (
+	attributes: SpanAttributes = {},
+): DbQuery | undefined => {
+	const readString = (...keys: string[]) => {
+		for (const key of keys) {
+			const value = attributes[key];
+			if (typeof value === "string" && value) return value;
+		}
+		return undefined;
+	};
+
+	const system = readString("db.system.name", "db.system");
+	if (!system) return undefined;
+
+	const statement = readString("db.query.text", "db.statement");
+	const rows = attributes[ROWS_ATTRIBUTE];
+
+	return {
+		system,
+		statement,
+		operation:
+			readString("db.operation.name", "db.operation") ??
+			// First keyword of the statement, e.g. `SELECT` or redis `GET`
+			statement
+				?.match(/^\s*([a-z]+)/i)?.[1]
+				.toUpperCase(),
+		namespace: readString(
+			"db.collection.name",
+			"db.mongodb.collection",
+			"db.sql.table",
+			"db.namespace",
+			"db.name",
+		),
+		rows: typeof rows === "number" ? rows : undefined,
+	};
+};
@@ -0,0 +1,111 @@
+import { context, isSpanContextValid, trace } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+import type { ExceptionRecord } from "@/packages/types";
+import { now } from "./timings";
+import { hrTimeToMilliseconds } from "./utils";
+
+/**
+ * Exception before it's matched against capture rules and given an ID
+ */
+export type CapturedException = Omit<ExceptionRecord, "id">;
+
+/**
+ * Turns bundler and absolute paths into ones relative to the app directory,
+ * e.g. `webpack-internal:///(rsc)/./app/page.tsx` into `./app/page.tsx`
+ */
+export const cleanStack = (stack: string, cwd = process.cwd()) =>
+	stack
+		.replace(/webpack(-internal)?:\/\/\/(\([^)]*\)\/)?/g, "")
+		.replace(/file:\/\//g, "")
+		.replaceAll(`${cwd}/`, "./");
+
+const describeReason = (reason: unknown) =>
+	reason instanceof Error
+		? {
+				type: reason.name,
+				message: reason.message,
+				stack: reason.stack && cleanStack(reason.stack),
+			}
+		: { message: String(reason) };
+
+/**
+ * Exceptions recorded with `span.recordException()`, e.g. by Next.js when
+ * rendering fails
+ */
+export const getSpanExceptions = (span: ReadableSpan): CapturedException[] => {
+	const { spanId, traceId } = span.spanContext();
+
+	return span.events
+		.filter((event) => event.name === "exception")
+		.map(({ time, attributes = {} }) => {
+			const type = attributes["exception.type"];
+			const stack = attributes["exception.stacktrace"];
+			return {
+				spanId,
+				traceId,
+				timestamp: hrTimeToMilliseconds(time),
+				type: type === undefined ? undefined : String(type),
+				message: String(attributes["exception.message"] ?? ""),
+				stack: typeof stack === "string" ? cleanStack(stack) : undefined,
+				source: "span",
+			};
+		});
+};
+
+// Rejections are handled outside of the context they happened in
+const getActiveSpanContext = () => {
+	const spanContext = trace.getSpan(context.active())?.spanContext();
+	return spanContext && isSpanContextValid(spanContext)
+		? { spanId: spanContext.spanId, traceId: spanContext.traceId }
+		: {};
+};
+
+/**
+ * Reports uncaught exceptions and unhandled rejections without changing how
+ * the process reacts to them. Enables source maps of stack traces as well.
+ *
+ * @returns function removing the listeners
+ */
+export const trackUncaughtExceptions = (
+	onException: (exception: CapturedException) => void,
+) => {
+	if (!process.sourceMapsEnabled) process.setSourceMapsEnabled(true);
+
+	const report = (
+		reason: unknown,
+		source: "uncaught-exception" | "unhandled-rejection",
+	) => {
+		try {
+			onException({
+				...describeReason(reason),
+				...getActiveSpanContext(),
+				timestamp: now(),
+				source,
+			});
+		} catch {
+			// Never get in the way of the app's own handling
+		}
+	};
+
+	const onUncaughtException = (error: unknown, origin: string) => {
+		// Already reported when the rejection was emitted
+		if (origin !== "unhandledRejection") report(error, "uncaught-exception");
+	};
+	process.on("uncaughtExceptionMonitor", onUncaughtException);
+
+	// Listening to `unhandledRejection` would stop the process from crashing
+	const emit = process.emit;
+	process.emit = function (
+		this: NodeJS.Process,
+		event: string | symbol,
+		...args: unknown[]
+	) {
+		if (event === "unhandledRejection") report(args[0], "unhandled-rejection");
+		return (emit as (...args: unknown[]) => boolean).call(this, event, ...args);
+	} as typeof process.emit;
+
+	return () => {
+		process.off("uncaughtExceptionMonitor", onUncaughtException);
+		process.emit = emit;
+	};
+};
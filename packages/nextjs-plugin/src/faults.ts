@@ -0,0 +1,149 @@
+import { STATUS_CODES } from "node:http";
+import { setTimeout } from "node:timers/promises";
+import type { FaultRule } from "@/packages/types";
+import { requestScope } from "./request-scope";
+import { createRuleSet, type RuleOptions } from "./rules";
+import {
+	type InterceptedRequestController,
+	isDelay,
+	isOptionalString,
+} from "./utils";
+
+export type FaultRuleOptions = RuleOptions<FaultRule>;
+
+// Waits for a single chunk of slower bandwidths overflow timers
+const MIN_BYTES_PER_SECOND = 1;
+
+const getFaultRuleIssue = ({
+	label,
+	delayMs,
+	errorStatus,
+	drop,
+	bytesPerSecond,
+}: FaultRule) => {
+	if (!isOptionalString(label)) return "label isn't a string";
+	if (delayMs !== undefined && !isDelay(delayMs)) {
+		return `delay ${delayMs} is invalid`;
+	}
+	if (
+		errorStatus !== undefined &&
+		!(Number.isInteger(errorStatus) && errorStatus >= 500 && errorStatus <= 599)
+	) {
+		return `status ${errorStatus} isn't a server error`;
+	}
+	if (drop !== undefined && typeof drop !== "boolean") {
+		return "drop flag isn't a boolean";
+	}
+	if (
+		bytesPerSecond !== undefined &&
+		!(
+			typeof bytesPerSecond === "number" &&
+			Number.isFinite(bytesPerSecond) &&
+			bytesPerSecond >= MIN_BYTES_PER_SECOND
+		)
+	) {
+		return `bandwidth ${bytesPerSecond} is invalid`;
+	}
+	return undefined;
+};
+
+export const createFaultRules = (initialRules: FaultRule[]) =>
+	createRuleSet("fault", getFaultRuleIssue, initialRules);
+
+// Smaller chunks than received are sent so progress of the body stays smooth
+const getThrottleChunkSize = (bytesPerSecond: number) =>
+	Math.max(1024, Math.round(bytesPerSecond / 10));
+
+const throttle = (
+	body: ReadableStream<Uint8Array>,
+	bytesPerSecond: number,
+): ReadableStream<Uint8Array> => {
+	const chunkSize = getThrottleChunkSize(bytesPerSecond);
+	const start = performance.now();
+	let sentBytes = 0;
+
+	return body.pipeThrough(
+		new TransformStream({
+			async transform(chunk, controller) {
+				for (let offset = 0; offset < chunk.byteLength; offset += chunkSize) {
+					const part = chunk.subarray(offset, offset + chunkSize);
+					sentBytes += part.byteLength;
+					const waitMs =
+						(sentBytes / bytesPerSecond) * 1000 - (performance.now() - start);
+					if (waitMs > 0) await setTimeout(waitMs);
+					controller.enqueue(part);
+				}
+			},
+		}),
+	);
+};
+
+const createConnectionResetError = () =>
+	Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+
+/**
+ * Delays, fails or throttles the request according to the rule, requests
+ * which are only delayed are sent as usual afterwards
+ *
+ * @param passthroughFetch - `fetch` which isn't intercepted, throttled
+ * requests are sent with it so their body can be slowed down
+ */
+export const applyFault = async (
+	{
+		request,
+		controller,
+	}: {
+		request: Request;
+		controller: InterceptedRequestController;
+	},
+	rule: FaultRule,
+	passthroughFetch: typeof fetch,
+) => {
+	if (rule.delayMs) await setTimeout(rule.delayMs);
+
+	if (rule.drop) {
+		controller.errorWith(createConnectionResetError());
+		return;
+	}
+
+	if (rule.errorStatus) {
+		controller.respondWith(
+			new Response(null, {
+				status: rule.errorStatus,
+				statusText: STATUS_CODES[rule.errorStatus],
+			}),
+		);
+		return;
+	}
+
+	if (rule.bytesPerSecond) {
+		let response: Response;
+		try {
+			// Undici interceptor skips requests made by `fetch`
+			response = await requestScope.run({ client: "fetch" }, () =>
+				passthroughFetch(request),
+			);
+		} catch (error) {
+			controller.errorWith(
+				error instanceof Error ? error : new Error(String(error)),
+			);
+			return;
+		}
+
+		// `fetch` decodes the body already, its length changes as well
+		const headers = new Headers(response.headers);
+		headers.delete("content-encoding");
+		headers.delete("content-length");
+
+		controller.respondWith(
+			new Response(
+				response.body && throttle(response.body, rule.bytesPerSecond),
+				{
+					status: response.status,
+					statusText: response.statusText,
+					headers,
+				},
+			),
+		);
+	}
+};
@@ -0,0 +1,159 @@
+export interface EventHistoryLimits {
+	/**
+	 * Maximum number of events kept for clients that connect later.
+	 * @default 5000
+	 */
+	maxEvents?: number;
+	/**
+	 * Maximum total size of kept events in bytes (serialized JSON).
+	 * @default 50MB
+	 */
+	maxBytes?: number;
+}
+
+export const DEFAULT_HISTORY_LIMITS: Required<EventHistoryLimits> = {
+	maxEvents: 5000,
+	maxBytes: 50 * 1024 * 1024,
+};
+
+interface HistoryEntry<T> {
+	event: T;
+	size: number;
+	recordedAt: number;
+}
+
+/**
+ * Ring-buffer like storage of broadcasted events. The oldest events are evicted
+ * once either of the limits is exceeded, the amount of evicted events is
+ * tracked so that clients can be told that the history is incomplete.
+ */
+export const createEventHistory = <T extends { seq: number }>(
+	limits: EventHistoryLimits = {},
+) => {
+	const { maxEvents, maxBytes } = { ...DEFAULT_HISTORY_LIMITS, ...limits };
+
+	let entries: HistoryEntry<T>[] = [];
+	// Index of the oldest entry, evicted entries before it are compacted lazily
+	let head = 0;
+	let totalBytes = 0;
+	let droppedCount = 0;
+
+	const evict = () => {
+		while (
+			entries.length - head > 0 &&
+			(entries.length - head > maxEvents || totalBytes > maxBytes)
+		) {
+			totalBytes -= entries[head].size;
+			head++;
+			droppedCount++;
+		}
+
+		// Avoid growing underlying array indefinitely
+		if (head > 0 && head >= entries.length / 2) {
+			entries = entries.slice(head);
+			head = 0;
+		}
+	};
+
+	return {
+		/**
+		 * @param size - size of the serialized event in bytes
+		 */
+		push(event: T, size: number) {
+			entries.push({ event, size, recordedAt: Date.now() });
+			totalBytes += size;
+			evict();
+		},
+		getAll(): T[] {
+			return entries.slice(head).map((entry) => entry.event);
+		},
+		/**
+		 * @returns events recorded after given timestamp in milliseconds
+		 */
+		getSince(timestamp: number): T[] {
+			const result: T[] = [];
+			// Entries are recorded in order, walk back until older ones are reached
+			for (let i = entries.length - 1; i >= head; i--) {
+				if (entries[i].recordedAt <= timestamp) break;
+				result.push(entries[i].event);
+			}
+			return result.reverse();
+		},
+		/**
+		 * @returns events with sequence number greater than given one
+		 */
+		getAfter(seq: number): T[] {
+			const result: T[] = [];
+			for (let i = entries.length - 1; i >= head; i--) {
+				if (entries[i].event.seq <= seq) break;
+				result.push(entries[i].event);
+			}
+			return result.reverse();
+		},
+		/**
+		 * Finds the most recent event matching the predicate
+		 */
+		findLast(predicate: (event: T) => boolean): T | undefined {
+			for (let i = entries.length - 1; i >= head; i--) {
+				if (predicate(entries[i].event)) return entries[i].event;
+			}
+			return undefined;
+		},
+		clear() {
+			entries = [];
+			head = 0;
+			totalBytes = 0;
+			droppedCount = 0;
+		},
+		get droppedCount() {
+			return droppedCount;
+		},
+		get size() {
+			return entries.length - head;
+		},
+		get totalBytes() {
+			return totalBytes;
+		},
+	};
+};
+
+export type EventHistory<T extends { seq: number }> = ReturnType<
+	typeof createEventHistory<T>
+>;
+
+/**
+ * Map which forgets entries that weren't updated for longer than `ttlMs`.
+ * Expired entries are swept while adding new ones so no timers are involved.
+ */
+export const createExpiringMap = <K, V>(ttlMs: number) => {
+	const map = new Map<K, { value: V; updatedAt: number }>();
+
+	const sweep = (now: number) => {
+		// Entries are re-inserted on update so map iteration order is the update order
+		for (const [key, entry] of map) {
+			if (now - entry.updatedAt < ttlMs) break;
+			map.delete(key);
+		}
+	};
+
+	return {
+		get(key: K): V | undefined {
+			return map.get(key)?.value;
+		},
+		set(key: K, value: V) {
+			const now = Date.now();
+			map.delete(key);
+			map.set(key, { value, updatedAt: now });
+			sweep(now);
+		},
+		delete(key: K) {
+			return map.delete(key);
+		},
+		clear() {
+			map.clear();
+		},
+		get size() {
+			return map.size;
+		},
+	};
+};
@@ -0,0 +1,225 @@
+import http2 from "node:http2";
+import {
+	createRequestId,
+	FetchResponse,
+	Interceptor,
+} from "@mswjs/interceptors";
+import { type RequestScope, requestScope } from "./request-scope";
+import {
+	createObserverController,
+	type InterceptedRequestEventMap,
+} from "./utils";
+
+type Http2Headers = http2.OutgoingHttpHeaders | http2.IncomingHttpHeaders;
+
+const readPseudoHeader = (headers: Http2Headers, name: string) => {
+	const value = headers[name];
+	return typeof value === "string" ? value : undefined;
+};
+
+// Pseudo headers like `:path` aren't valid names for Fetch API headers
+const toHeaders = (headers: Http2Headers) => {
+	const result = new Headers();
+	for (const [name, value] of Object.entries(headers)) {
+		if (name.startsWith(":") || value === undefined) continue;
+		for (const item of [value].flat()) {
+			result.append(name, String(item));
+		}
+	}
+	return result;
+};
+
+// Headers can also be passed as a flat list of names and values
+const normalizeHeaders = (
+	headers: http2.OutgoingHttpHeaders | readonly string[] = {},
+): http2.OutgoingHttpHeaders => {
+	if (!Array.isArray(headers)) return headers as http2.OutgoingHttpHeaders;
+	const result: http2.OutgoingHttpHeaders = {};
+	for (let index = 0; index + 1 < headers.length; index += 2) {
+		result[headers[index].toLowerCase()] = headers[index + 1];
+	}
+	return result;
+};
+
+const toBuffer = (chunk: unknown, encoding?: unknown) =>
+	typeof chunk === "string"
+		? Buffer.from(
+				chunk,
+				typeof encoding === "string" && Buffer.isEncoding(encoding)
+					? encoding
+					: "utf-8",
+			)
+		: chunk instanceof Uint8Array
+			? Buffer.from(chunk)
+			: undefined;
+
+/**
+ * Observes requests made with `node:http2` client sessions. Unlike the other
+ * interceptors it can't mock responses.
+ */
+export class Http2Interceptor extends Interceptor<InterceptedRequestEventMap> {
+	static symbol = Symbol("http2-interceptor");
+
+	constructor() {
+		super(Http2Interceptor.symbol);
+	}
+
+	protected setup() {
+		const originalConnect = http2.connect;
+		const observeStream = this.observeStream.bind(this);
+
+		http2.connect = ((...args: Parameters<typeof http2.connect>) => {
+			const session = originalConnect(...args);
+			const [authority] = args;
+			const origin =
+				typeof authority === "string"
+					? new URL(authority).origin
+					: authority.origin;
+
+			const originalRequest = session.request;
+			session.request = ((...requestArgs) => {
+				const stream = originalRequest.apply(session, requestArgs);
+				try {
+					observeStream(origin, normalizeHeaders(requestArgs[0]), stream);
+				} catch {
+					// Never break the request because it can't be observed
+				}
+				return stream;
+			}) as typeof session.request;
+
+			return session;
+		}) as typeof http2.connect;
+
+		this.subscriptions.push(() => {
+			http2.connect = originalConnect;
+		});
+	}
+
+	private observeStream(
+		origin: string,
+		headers: http2.OutgoingHttpHeaders,
+		stream: http2.ClientHttp2Stream,
+	) {
+		const { emitter } = this;
+		const scope: RequestScope = requestScope.getStore() ?? { client: "http2" };
+		const requestId = createRequestId();
+		const method = readPseudoHeader(headers, ":method") ?? "GET";
+		const url = new URL(
+			readPseudoHeader(headers, ":path") ?? "/",
+			readPseudoHeader(headers, ":scheme") &&
+				readPseudoHeader(headers, ":authority")
+				? `${readPseudoHeader(headers, ":scheme")}://${readPseudoHeader(headers, ":authority")}`
+				: origin,
+		);
+
+		const bodyChunks: Buffer[] = [];
+		let request: Request | undefined;
+		// Request is reported once its body is written, or when the server
+		// responds without waiting for it
+		const emitRequest = () => {
+			if (request) return request;
+			request = new Request(url, {
+				method,
+				headers: toHeaders(headers),
+				body:
+					method === "GET" || method === "HEAD" || bodyChunks.length === 0
+						? null
+						: Buffer.concat(bodyChunks),
+			});
+			const controller = createObserverController();
+			requestScope.run(scope, () =>
+				emitter.emit("request", {
+					request: request as Request,
+					requestId,
+					controller,
+				}),
+			);
+			return request;
+		};
+
+		const write = stream.write;
+		stream.write = function (
+			this: http2.ClientHttp2Stream,
+			chunk: unknown,
+			...args: unknown[]
+		) {
+			const buffer = toBuffer(chunk, args[0]);
+			if (buffer) bodyChunks.push(buffer);
+			return (write as (...args: unknown[]) => boolean).call(
+				this,
+				chunk,
+				...args,
+			);
+		} as typeof stream.write;
+
+		const end = stream.end;
+		stream.end = function (this: http2.ClientHttp2Stream, ...args: unknown[]) {
+			const buffer =
+				typeof args[0] === "function" ? undefined : toBuffer(args[0], args[1]);
+			if (buffer) bodyChunks.push(buffer);
+			const result = (end as (...args: unknown[]) => unknown).apply(this, args);
+			emitRequest();
+			return result;
+		} as typeof stream.end;
+
+		// `endStream` option sends headers only
+		if (stream.writableEnded) emitRequest();
+
+		let body: ReadableStreamDefaultController<Uint8Array> | undefined;
+		const closeBody = () => {
+			try {
+				body?.close();
+			} catch {
+				// Already closed
+			}
+			body = undefined;
+		};
+
+		const observeEvent = (event: string | symbol, args: unknown[]) => {
+			if (event === "response") {
+				const responseHeaders = args[0] as http2.IncomingHttpHeaders;
+				const status = Number(responseHeaders[":status"]);
+				const readableBody = FetchResponse.isResponseWithBody(status)
+					? new ReadableStream<Uint8Array>({
+							start: (controller) => {
+								body = controller;
+							},
+						})
+					: null;
+				const response = new FetchResponse(readableBody, {
+					status,
+					headers: toHeaders(responseHeaders),
+					url: url.href,
+				});
+				emitter.emit("response", {
+					response,
+					isMockedResponse: false,
+					request: emitRequest(),
+					requestId,
+				});
+			} else if (event === "data") {
+				const buffer = toBuffer(args[0]);
+				if (buffer) body?.enqueue(new Uint8Array(buffer));
+			} else if (event === "end" || event === "close" || event === "error") {
+				// Partial body is kept when the stream fails
+				closeBody();
+			}
+		};
+
+		// Listening to `data` would switch the stream to flowing mode and take
+		// the response away from the app
+		const emit = stream.emit;
+		stream.emit = function (
+			this: http2.ClientHttp2Stream,
+			event: string | symbol,
+			...eventArgs: unknown[]
+		) {
+			try {
+				observeEvent(event, eventArgs);
+			} catch {
+				// Never break the request because it can't be observed
+			}
+			return emit.call(this, event, ...eventArgs);
+		} as typeof stream.emit;
+	}
+}
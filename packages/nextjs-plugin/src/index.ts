@@ -1,2 +1,7 @@
+export type { FaultRuleOptions } from "./faults";
+export { NextNetworkLogRecordProcessor } from "./log-processor";
+export type { MockRuleOptions } from "./mocks";
 export * from "./next-config";
+export type { NextNetworkOptions } from "./options";
 export * from "./register";
+export { NextNetworkSpanProcessor } from "./span-processor";
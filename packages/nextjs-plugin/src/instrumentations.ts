@@ -0,0 +1,33 @@
+import type { InstrumentationConfigMap } from "@opentelemetry/auto-instrumentations-node";
+import { dbInstrumentationConfig } from "./db";
+
+/**
+ * File system, DNS and socket spans create thousands of nodes per page render
+ * without telling much about the traffic
+ */
+export const DEFAULT_INSTRUMENTATIONS: InstrumentationConfigMap = {
+	"@opentelemetry/instrumentation-fs": { enabled: false },
+	"@opentelemetry/instrumentation-dns": { enabled: false },
+	"@opentelemetry/instrumentation-net": { enabled: false },
+};
+
+// Configs of the same instrumentation are merged, later ones take precedence
+export const mergeInstrumentationConfigs = (
+	...configs: InstrumentationConfigMap[]
+) => {
+	const result: Record<string, object> = {};
+	for (const config of configs) {
+		for (const [name, value] of Object.entries(config)) {
+			result[name] = { ...result[name], ...value };
+		}
+	}
+	return result as InstrumentationConfigMap;
+};
+
+/**
+ * Configs of auto-instrumentations started by the plugin's own SDK
+ *
+ * @param configs - from `instrumentations` option, defaults already applied
+ */
+export const getInstrumentationConfigs = (configs: InstrumentationConfigMap) =>
+	mergeInstrumentationConfigs(dbInstrumentationConfig, configs);
@@ -1,16 +1,25 @@
 import { BatchInterceptor } from "@mswjs/interceptors";
 import { ClientRequestInterceptor } from "@mswjs/interceptors/ClientRequest";
 import { FetchInterceptor } from "@mswjs/interceptors/fetch";
+import { WebSocketInterceptor } from "@mswjs/interceptors/WebSocket";
 import { XMLHttpRequestInterceptor } from "@mswjs/interceptors/XMLHttpRequest";
+import { Http2Interceptor } from "./http2-interceptor";
+import { UndiciInterceptor } from "./undici-interceptor";
+import type { InterceptedRequestEventMap } from "./utils";
 
 export const createInterceptor = () => {
 	const interceptors = [
 		new ClientRequestInterceptor(),
 		new XMLHttpRequestInterceptor(),
 		new FetchInterceptor(),
+		new UndiciInterceptor(),
+		new Http2Interceptor(),
 	] as const;
 
-	const interceptor = new BatchInterceptor({
+	const interceptor = new BatchInterceptor<
+		typeof interceptors,
+		InterceptedRequestEventMap
+	>({
 		name: "next-network-interceptor",
 		interceptors: interceptors,
 	});
@@ -19,3 +28,36 @@ export const createInterceptor = () => {
 
 	return interceptor;
 };
+
+// Reporting no listeners makes the interceptor connect to the real server as if
+// it wasn't applied, connections are only observed
+class PassthroughWebSocketInterceptor extends WebSocketInterceptor {
+	constructor() {
+		super();
+		const emit = this.emitter.emit.bind(this.emitter);
+		this.emitter.emit = ((...args: Parameters<typeof emit>) => {
+			emit(...args);
+			return false;
+		}) as typeof emit;
+
+		// Passthrough connections are opened without updating their state, so
+		// sending from `open` listeners would throw
+		this.on("connection", ({ client, server }) => {
+			server.addEventListener("open", () => {
+				Object.assign(client.socket, {
+					readyState: WebSocket.OPEN,
+					protocol: server.socket.protocol,
+				});
+			});
+		});
+	}
+}
+
+/**
+ * Observes connections of the global `WebSocket`, available since Node.js 22
+ */
+export const createWebSocketInterceptor = () => {
+	const interceptor = new PassthroughWebSocketInterceptor();
+	interceptor.apply();
+	return interceptor;
+};
@@ -0,0 +1,99 @@
+import type { Context } from "@opentelemetry/api";
+import type { logs } from "@opentelemetry/sdk-node";
+import type { LogLevel, SpanAttributes } from "@/packages/types";
+import { hrTimeToMilliseconds } from "./utils";
+
+/**
+ * Log record before it's matched against capture rules and given an ID
+ */
+export interface CapturedLog {
+	spanId: string;
+	traceId: string;
+	timestamp: number;
+	level: LogLevel;
+	message: string;
+	source: string;
+	attributes?: SpanAttributes;
+}
+
+export type LogListener = (log: CapturedLog) => void;
+
+// Severity numbers come in ranges of four, e.g. 9-12 for INFO to INFO4
+const getLevel = (severity: number | undefined): LogLevel => {
+	if (severity === undefined) return "info";
+	if (severity >= 21) return "fatal";
+	if (severity >= 17) return "error";
+	if (severity >= 13) return "warn";
+	if (severity >= 9) return "info";
+	if (severity >= 5) return "debug";
+	return "trace";
+};
+
+const stringify = (value: unknown) =>
+	typeof value === "string" ? value : JSON.stringify(value);
+
+// Nested values aren't valid span attributes
+const toSpanAttributes = (attributes: logs.SdkLogRecord["attributes"]) => {
+	const result: SpanAttributes = {};
+	for (const [key, value] of Object.entries(attributes)) {
+		result[key] =
+			typeof value === "object" && value !== null && !Array.isArray(value)
+				? stringify(value)
+				: (value as SpanAttributes[string]);
+	}
+	return result;
+};
+
+// e.g. `@opentelemetry/instrumentation-pino` or `@opentelemetry/winston-transport`
+const getSource = (scopeName: string) =>
+	scopeName
+		.replace(/^@opentelemetry\/(instrumentation-)?/, "")
+		.replace(/-transport$/, "");
+
+/**
+ * Log record processor which passes records written within spans to the
+ * plugin server. Records come from logging libraries instrumented by
+ * OpenTelemetry, e.g. `winston`, `pino` and `bunyan`.
+ */
+export class NextNetworkLogRecordProcessor implements logs.LogRecordProcessor {
+	private readonly listeners = new Set<LogListener>();
+
+	/**
+	 * @returns function to remove the listener
+	 */
+	subscribe(listener: LogListener) {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	onEmit(logRecord: logs.SdkLogRecord, _context?: Context): void {
+		const { spanContext } = logRecord;
+		if (!spanContext) return;
+
+		const log: CapturedLog = {
+			spanId: spanContext.spanId,
+			traceId: spanContext.traceId,
+			timestamp: hrTimeToMilliseconds(logRecord.hrTime),
+			level: getLevel(logRecord.severityNumber),
+			message: stringify(logRecord.body ?? ""),
+			source: getSource(logRecord.instrumentationScope.name),
+			attributes: toSpanAttributes(logRecord.attributes),
+		};
+
+		for (const listener of this.listeners) {
+			try {
+				listener(log);
+			} catch (error) {
+				console.error("NextNetwork: Failed to process log record", error);
+			}
+		}
+	}
+
+	async forceFlush(): Promise<void> {}
+
+	async shutdown(): Promise<void> {
+		this.listeners.clear();
+	}
+}
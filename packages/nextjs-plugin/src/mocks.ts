@@ -0,0 +1,75 @@
+import { setTimeout } from "node:timers/promises";
+import type { MockRule } from "@/packages/types";
+import type { RequestScope } from "./request-scope";
+import { createRuleSet, type RuleOptions } from "./rules";
+import {
+	type InterceptedRequestController,
+	isDelay,
+	isObject,
+	isOptionalString,
+} from "./utils";
+
+export type MockRuleOptions = RuleOptions<MockRule>;
+
+// Statuses which responses can't have a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// `Response` throws on names and values which aren't valid in HTTP
+const isValidHeaders = (headers: Record<string, string>) => {
+	try {
+		new Headers(headers);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+const getMockRuleIssue = ({ status, headers, body, delayMs }: MockRule) => {
+	// `Response` only accepts these, other rules would fail every matching request
+	if (
+		status !== undefined &&
+		!(Number.isInteger(status) && status >= 200 && status <= 599)
+	) {
+		return `status ${status} is invalid`;
+	}
+	if (
+		headers !== undefined &&
+		!(
+			isObject(headers) &&
+			Object.values(headers).every((value) => typeof value === "string") &&
+			isValidHeaders(headers)
+		)
+	) {
+		return "headers are invalid";
+	}
+	if (!isOptionalString(body)) return "body isn't a string";
+	if (delayMs !== undefined && !isDelay(delayMs)) {
+		return `delay ${delayMs} is invalid`;
+	}
+	return undefined;
+};
+
+export const createMockRules = (initialRules: MockRule[]) =>
+	createRuleSet("mock", getMockRuleIssue, initialRules);
+
+/**
+ * Requests observed through diagnostics channels or `node:http2` are already
+ * on their way and can't be answered by the plugin
+ */
+export const isMockable = (scope: RequestScope | undefined) =>
+	scope?.client !== "undici" && scope?.client !== "http2";
+
+export const respondWithMock = async (
+	controller: InterceptedRequestController,
+	rule: MockRule,
+) => {
+	if (rule.delayMs) await setTimeout(rule.delayMs);
+
+	const status = rule.status ?? 200;
+	controller.respondWith(
+		new Response(NULL_BODY_STATUSES.includes(status) ? null : rule.body, {
+			status,
+			headers: rule.headers,
+		}),
+	);
+};
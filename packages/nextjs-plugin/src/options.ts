@@ -0,0 +1,161 @@
+import type { InstrumentationConfigMap } from "@opentelemetry/auto-instrumentations-node";
+import type { FaultRule, MockRule, TrafficFilter } from "@/packages/types";
+import { DEFAULT_MAX_BODY_SIZE } from "./body";
+import type { FaultRuleOptions } from "./faults";
+import { DEFAULT_HISTORY_LIMITS, type EventHistoryLimits } from "./history";
+import {
+	DEFAULT_INSTRUMENTATIONS,
+	mergeInstrumentationConfigs,
+} from "./instrumentations";
+import type { MockRuleOptions } from "./mocks";
+import type { RedactionOptions } from "./redaction";
+import { resolveRules } from "./rules";
+
+export interface NextNetworkOptions {
+	/**
+	 * Port of the plugin server the browser extension connects to.
+	 * Can be overridden with `NEXT_NETWORK_PORT` environment variable.
+	 * @default 3300
+	 */
+	port?: number;
+	/**
+	 * Host the plugin server binds to. The server hands out captured traffic
+	 * and replays requests with the app's credentials, bind it to other
+	 * interfaces only on trusted networks.
+	 * Can be overridden with `NEXT_NETWORK_HOST` environment variable.
+	 * @default "localhost"
+	 */
+	host?: string;
+	/**
+	 * Allows to turn the plugin off without removing it from `instrumentation.ts`.
+	 * Can be overridden with `NEXT_NETWORK_ENABLED` environment variable.
+	 * @default true
+	 */
+	enabled?: boolean;
+	/**
+	 * Limits of the event history replayed to newly connected clients.
+	 */
+	history?: EventHistoryLimits;
+	/**
+	 * How long OpenTelemetry spans and request timings are kept around
+	 * to correlate requests with their parent spans, in milliseconds.
+	 * @default 300000 (5 minutes)
+	 */
+	spanTtlMs?: number;
+	/**
+	 * Masks sensitive data before it is sent to the browser extension.
+	 * Well-known secret headers are always masked unless set to `false`.
+	 */
+	redact?: RedactionOptions | false;
+	/**
+	 * Maximum size of captured request and response bodies in bytes,
+	 * larger bodies are truncated.
+	 * @default 1048576 (1MB)
+	 */
+	maxBodySize?: number;
+	/**
+	 * How the plugin integrates with OpenTelemetry:
+	 * - `"sdk"` starts its own SDK with auto-instrumentations
+	 * - `"external"` relies on an existing setup (e.g. `@vercel/otel`) to which
+	 *   `nextNetworkSpanProcessor` was added
+	 * @default "sdk"
+	 */
+	otel?: "sdk" | "external";
+	/**
+	 * Configs of auto-instrumentations started with `otel: "sdk"`, merged
+	 * with the defaults which disable `fs`, `dns` and `net` instrumentations.
+	 * @example { "@opentelemetry/instrumentation-dns": { enabled: true } }
+	 */
+	instrumentations?: InstrumentationConfigMap;
+	/**
+	 * Spans which end sooner than this are dropped, in milliseconds. Spans
+	 * with requests made within them are always kept.
+	 * @default 0
+	 */
+	minSpanDurationMs?: number;
+	/**
+	 * Include and exclude rules for outgoing requests and incoming HTTP spans,
+	 * excluded traffic isn't captured at all. Spans and requests made within
+	 * an excluded span are excluded as well.
+	 * @example { exclude: [{ url: "/_next/static/*" }, { host: "*.sentry.io" }] }
+	 */
+	capture?: TrafficFilter;
+	/**
+	 * Responses the plugin answers matching outgoing requests with instead of
+	 * the network, rules can be changed from the browser extension as well.
+	 * Requests made with `undici` directly or `node:http2` can't be mocked.
+	 * @example [{ url: "https://api.example.com/users/*", status: 503, delayMs: 1000 }]
+	 */
+	mocks?: MockRuleOptions[];
+	/**
+	 * Make matching outgoing requests slow or fail on purpose, e.g. to try out
+	 * loading states and error boundaries. Rules can be toggled from the
+	 * browser extension as well. Mocked requests and requests made with
+	 * `undici` directly or `node:http2` aren't affected.
+	 * @example [{ host: "api.example.com", delayMs: 2000, bytesPerSecond: 50_000 }]
+	 */
+	faults?: FaultRuleOptions[];
+}
+
+export type ResolvedOptions = Required<
+	Omit<NextNetworkOptions, "mocks" | "faults">
+> & { mocks: MockRule[]; faults: FaultRule[] };
+
+export const DEFAULT_PORT = 3300;
+export const DEFAULT_HOST = "localhost";
+export const DEFAULT_SPAN_TTL_MS = 5 * 60 * 1000;
+
+const parsePort = (value: string | undefined): number | undefined => {
+	if (!value) return undefined;
+
+	const port = Number(value);
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		console.warn(
+			`NextNetwork: Ignoring invalid NEXT_NETWORK_PORT value "${value}"`,
+		);
+		return undefined;
+	}
+
+	return port;
+};
+
+const parseBoolean = (value: string | undefined): boolean | undefined => {
+	if (!value) return undefined;
+
+	switch (value.toLowerCase()) {
+		case "1":
+		case "true":
+		case "yes":
+			return true;
+		case "0":
+		case "false":
+		case "no":
+			return false;
+		default:
+			return undefined;
+	}
+};
+
+// Environment variables take precedence so the plugin can be tweaked per run
+// without touching `instrumentation.ts`
+export const resolveOptions = (
+	options: NextNetworkOptions = {},
+	env: NodeJS.ProcessEnv = process.env,
+): ResolvedOptions => ({
+	port: parsePort(env.NEXT_NETWORK_PORT) ?? options.port ?? DEFAULT_PORT,
+	host: env.NEXT_NETWORK_HOST || options.host || DEFAULT_HOST,
+	enabled: parseBoolean(env.NEXT_NETWORK_ENABLED) ?? options.enabled ?? true,
+	history: { ...DEFAULT_HISTORY_LIMITS, ...options.history },
+	spanTtlMs: options.spanTtlMs ?? DEFAULT_SPAN_TTL_MS,
+	redact: options.redact ?? {},
+	maxBodySize: options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE,
+	otel: options.otel ?? "sdk",
+	instrumentations: mergeInstrumentationConfigs(
+		DEFAULT_INSTRUMENTATIONS,
+		options.instrumentations ?? {},
+	),
+	minSpanDurationMs: options.minSpanDurationMs ?? 0,
+	capture: options.capture ?? {},
+	mocks: resolveRules(options.mocks),
+	faults: resolveRules(options.faults),
+});
@@ -0,0 +1,263 @@
+import type {
+	RedactedFields,
+	RequestSpan,
+	ResponseChunk,
+	ResponseSpan,
+	ServerSpan,
+	WebSocketMessage,
+} from "@/packages/types";
+
+export interface RedactionOptions {
+	/**
+	 * Header names (case-insensitive) whose values are masked,
+	 * in addition to the default ones like `Authorization` and `Cookie`.
+	 */
+	headers?: string[];
+	/**
+	 * Query parameter names whose values are masked in request URLs.
+	 */
+	queryParams?: string[];
+	/**
+	 * Paths to mask in JSON bodies, e.g. `$.password` or `$.users[*].token`.
+	 */
+	bodyPaths?: string[];
+}
+
+export const REDACTED_VALUE = "[REDACTED]";
+
+export const DEFAULT_REDACTED_HEADERS = [
+	"authorization",
+	"proxy-authorization",
+	"cookie",
+	"set-cookie",
+	"x-api-key",
+];
+
+type PathSegment = string | "*";
+
+const parseBodyPath = (path: string): PathSegment[] => {
+	const normalizedPath = path.trim().replace(/^\$\.?/, "");
+	return normalizedPath
+		.replace(/\[(\*|\d+)\]/g, ".$1")
+		.replace(/\[["']([^"']+)["']\]/g, ".$1")
+		.split(".")
+		.filter(Boolean);
+};
+
+/**
+ * Masks values at given path, returns true when anything was masked
+ */
+const redactPath = (value: unknown, segments: PathSegment[]): boolean => {
+	if (segments.length === 0 || value === null || typeof value !== "object") {
+		return false;
+	}
+
+	const [segment, ...rest] = segments;
+	const record = value as Record<string, unknown>;
+	const keys = segment === "*" ? Object.keys(record) : [segment];
+	let redacted = false;
+
+	for (const key of keys) {
+		if (!Object.hasOwn(record, key)) continue;
+
+		if (rest.length === 0) {
+			record[key] = REDACTED_VALUE;
+			redacted = true;
+		} else if (redactPath(record[key], rest)) {
+			redacted = true;
+		}
+	}
+
+	return redacted;
+};
+
+export const createRedactor = (options: RedactionOptions | false) => {
+	const headerNames = new Set(
+		options === false
+			? []
+			: [...DEFAULT_REDACTED_HEADERS, ...(options.headers ?? [])].map(
+					(header) => header.toLowerCase(),
+				),
+	);
+	const queryParams = new Set(options === false ? [] : options.queryParams);
+	const bodyPaths = (options === false ? [] : (options.bodyPaths ?? [])).map(
+		(path) => ({ path, segments: parseBodyPath(path) }),
+	);
+
+	const redactHeaders = (headers: Record<string, string>) => {
+		const redactedHeaders: string[] = [];
+		const result = { ...headers };
+
+		for (const key of Object.keys(result)) {
+			if (headerNames.has(key.toLowerCase())) {
+				result[key] = REDACTED_VALUE;
+				redactedHeaders.push(key);
+			}
+		}
+
+		return { headers: result, redactedHeaders };
+	};
+
+	const redactSearchParams = (searchParams: URLSearchParams) => {
+		const redactedQuery: string[] = [];
+		for (const key of new Set(searchParams.keys())) {
+			if (queryParams.has(key)) {
+				searchParams.set(key, REDACTED_VALUE);
+				redactedQuery.push(key);
+			}
+		}
+		return redactedQuery;
+	};
+
+	const redactUrl = (url: string) => {
+		if (queryParams.size === 0) return { url, redactedQuery: [] };
+
+		let parsedUrl: URL;
+		try {
+			parsedUrl = new URL(url);
+		} catch {
+			return { url, redactedQuery: [] };
+		}
+
+		const redactedQuery = redactSearchParams(parsedUrl.searchParams);
+		return {
+			url: redactedQuery.length > 0 ? parsedUrl.toString() : url,
+			redactedQuery,
+		};
+	};
+
+	// Query string without the leading `?`
+	const redactQueryString = (query: string) => {
+		const searchParams = new URLSearchParams(query);
+		return redactSearchParams(searchParams).length > 0
+			? searchParams.toString()
+			: query;
+	};
+
+	// Path with an optional query string, e.g. `/api/users?token=secret`
+	const redactTarget = (target: string) => {
+		const queryIndex = target.indexOf("?");
+		return queryIndex === -1
+			? target
+			: `${target.slice(0, queryIndex + 1)}${redactQueryString(target.slice(queryIndex + 1))}`;
+	};
+
+	// Attributes of old and new HTTP semantic conventions which contain queries
+	const urlAttributeRedactors: Record<string, (value: string) => string> = {
+		"http.url": (value) => redactUrl(value).url,
+		"url.full": (value) => redactUrl(value).url,
+		"http.target": redactTarget,
+		"url.query": redactQueryString,
+	};
+
+	const redactBody = ({
+		body,
+		bodyEncoding,
+		bodyTruncated,
+	}: Pick<RequestSpan, "body" | "bodyEncoding" | "bodyTruncated">) => {
+		const redactedBody: string[] = [];
+		if (!body || bodyPaths.length === 0 || bodyEncoding === "base64") {
+			return { body, redactedBody };
+		}
+
+		// Cut JSON can't be parsed, withhold it entirely rather than leak secrets
+		if (bodyTruncated) {
+			return { body: REDACTED_VALUE, redactedBody: ["$"] };
+		}
+
+		let parsedBody: unknown;
+		try {
+			parsedBody = JSON.parse(body);
+		} catch {
+			// Only JSON bodies are supported
+			return { body, redactedBody };
+		}
+
+		for (const { path, segments } of bodyPaths) {
+			if (redactPath(parsedBody, segments)) {
+				redactedBody.push(path);
+			}
+		}
+
+		return {
+			body: redactedBody.length > 0 ? JSON.stringify(parsedBody) : body,
+			redactedBody,
+		};
+	};
+
+	const toRedactedFields = (
+		fields: RedactedFields,
+	): RedactedFields | undefined =>
+		fields.headers.length + fields.query.length + fields.body.length > 0
+			? fields
+			: undefined;
+
+	return {
+		request(span: RequestSpan): RequestSpan {
+			const { headers, redactedHeaders } = redactHeaders(span.headers);
+			const { url, redactedQuery } = redactUrl(span.url);
+			const { body, redactedBody } = redactBody(span);
+
+			return {
+				...span,
+				url,
+				headers,
+				body,
+				redacted: toRedactedFields({
+					headers: redactedHeaders,
+					query: redactedQuery,
+					body: redactedBody,
+				}),
+			};
+		},
+		response(span: ResponseSpan): ResponseSpan {
+			const { headers, redactedHeaders } = redactHeaders(span.headers);
+			const { body, redactedBody } = redactBody(span);
+
+			return {
+				...span,
+				headers,
+				body,
+				redacted: toRedactedFields({
+					headers: redactedHeaders,
+					query: [],
+					body: redactedBody,
+				}),
+			};
+		},
+		span(span: ServerSpan): ServerSpan {
+			if (queryParams.size === 0 || !span.attributes) return span;
+
+			const attributes = { ...span.attributes };
+			for (const [key, redact] of Object.entries(urlAttributeRedactors)) {
+				const value = attributes[key];
+				if (typeof value === "string") attributes[key] = redact(value);
+			}
+			return { ...span, attributes };
+		},
+		chunk(chunk: ResponseChunk): ResponseChunk {
+			// Partial JSON can't be inspected, withhold it when body paths are masked
+			return bodyPaths.length > 0 && chunk.encoding === "utf-8"
+				? { ...chunk, data: REDACTED_VALUE }
+				: chunk;
+		},
+		message(message: WebSocketMessage): WebSocketMessage {
+			// Unlike chunks, messages are usually complete JSON documents
+			const { body, redactedBody } = redactBody({
+				body: message.data,
+				bodyEncoding: message.encoding,
+				bodyTruncated: message.truncated,
+			});
+
+			return {
+				...message,
+				data: body ?? message.data,
+				redacted: toRedactedFields({
+					headers: [],
+					query: [],
+					body: redactedBody,
+				}),
+			};
+		},
+	};
+};
@@ -1,29 +1,93 @@
 import { getNodeAutoInstrumentations } from "@opentelemetry/auto-instrumentations-node";
 import { NodeSDK } from "@opentelemetry/sdk-node";
+import { getInstrumentationConfigs } from "./instrumentations";
+import { NextNetworkLogRecordProcessor } from "./log-processor";
 import {
-	InMemorySpanExporter,
-	SimpleSpanProcessor,
-} from "@opentelemetry/sdk-trace-node";
+	type NextNetworkOptions,
+	type ResolvedOptions,
+	resolveOptions,
+} from "./options";
 import { createServer } from "./server";
+import {
+	isTracerProviderRegistered,
+	NextNetworkSpanProcessor,
+} from "./span-processor";
+
+/**
+ * Add to your own tracer provider when using `otel: "external"` option, e.g.
+ * `registerOTel({ spanProcessors: ["auto", nextNetworkSpanProcessor] })`
+ */
+export const nextNetworkSpanProcessor = new NextNetworkSpanProcessor();
+
+/**
+ * Add to your own logger provider when using `otel: "external"` option to
+ * forward records of instrumented logging libraries, e.g. `winston` or `pino`
+ */
+export const nextNetworkLogRecordProcessor =
+	new NextNetworkLogRecordProcessor();
 
-const inMemorySpanExporter = new InMemorySpanExporter();
-const simpleSpanProcessor = new SimpleSpanProcessor(inMemorySpanExporter);
+export function register(options?: NextNetworkOptions) {
+	const resolvedOptions = resolveOptions(options);
+
+	if (!resolvedOptions.enabled) {
+		console.log("NextNetwork: Plugin is disabled, skipping instrumentation");
+		return;
+	}
+
+	if (resolvedOptions.otel === "sdk") {
+		startSdk(resolvedOptions);
+	}
+
+	startLocalServer(resolvedOptions);
+}
+
+function startSdk(options: ResolvedOptions) {
+	// Starting another SDK would fail to register and double-patch modules
+	if (isTracerProviderRegistered()) {
+		console.warn(
+			"NextNetwork: OpenTelemetry tracer provider is already registered, " +
+				"server spans won't be captured. Add `nextNetworkSpanProcessor` to " +
+				'your tracer provider and pass `otel: "external"` option to silence this warning.',
+		);
+		return;
+	}
 
-export function register() {
 	const sdk = new NodeSDK({
-		spanProcessor: simpleSpanProcessor,
-		instrumentations: [getNodeAutoInstrumentations()],
+		spanProcessors: [nextNetworkSpanProcessor],
+		logRecordProcessors: [nextNetworkLogRecordProcessor],
+		instrumentations: [
+			getNodeAutoInstrumentations(
+				getInstrumentationConfigs(options.instrumentations),
+			),
+		],
 	});
 
 	sdk.start();
-	startLocalServer();
 }
 
 // Start local server which responds with spans & metrics
-function startLocalServer() {
-	const server = createServer(simpleSpanProcessor);
-	server.listen(3300, () => {
-		console.log("NextNetwork: Plugin server running on http://localhost:3300");
+function startLocalServer(options: ResolvedOptions) {
+	const { port, host } = options;
+	const server = createServer(
+		nextNetworkSpanProcessor,
+		nextNetworkLogRecordProcessor,
+		options,
+	);
+	const url = `http://${host}:${port}`;
+
+	server.on("error", (error: NodeJS.ErrnoException) => {
+		if (error.code === "EADDRINUSE") {
+			console.error(
+				`NextNetwork: Port ${port} is already in use, plugin server is not running. ` +
+					"Pick another port with `port` option or NEXT_NETWORK_PORT environment variable.",
+			);
+		} else {
+			console.error("NextNetwork: Plugin server failed", error);
+		}
+	});
+
+	server.listen(port, host, () => {
+		console.log(`NextNetwork: Plugin server running on ${url}`);
 	});
 }
 
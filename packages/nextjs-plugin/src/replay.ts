@@ -0,0 +1,88 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { ReplayRequest } from "@/packages/types";
+import { REDACTED_VALUE } from "./redaction";
+import { isObject, isOptionalString } from "./utils";
+
+// ID of the original request, set while its replay is being sent
+const replayedRequestId = new AsyncLocalStorage<string>();
+
+/**
+ * Has to be called from the interceptor `request` listener
+ *
+ * @returns ID of the original request when the intercepted one is its replay
+ */
+export const getReplayedRequestId = () => replayedRequestId.getStore();
+
+/**
+ * Requests sent by clients aren't trusted to match the types
+ */
+export const isReplayRequest = (value: unknown): value is ReplayRequest =>
+	isObject(value) &&
+	typeof value.id === "string" &&
+	typeof value.method === "string" &&
+	typeof value.url === "string" &&
+	isObject(value.headers) &&
+	Object.values(value.headers).every((header) => typeof header === "string") &&
+	isOptionalString(value.body) &&
+	(value.bodyEncoding === undefined ||
+		value.bodyEncoding === "utf-8" ||
+		value.bodyEncoding === "base64");
+
+// Set by `fetch` itself or tied to the connection and trace of the original
+const OMITTED_HEADERS = [
+	"connection",
+	"content-length",
+	"host",
+	"keep-alive",
+	"transfer-encoding",
+	"upgrade",
+	"traceparent",
+	"tracestate",
+];
+
+const METHODS_WITHOUT_BODY = ["GET", "HEAD"];
+
+/**
+ * Sends the request again with the global `fetch`, so it's intercepted and
+ * captured like any other request the app makes
+ *
+ * @param original - unmasked URL and headers of the original request, header
+ * keys in lower case. Masked headers are only restored for the same origin so
+ * the credentials can't be sent elsewhere.
+ * @throws when the edited request can't be sent, e.g. its URL or a header
+ * name is invalid
+ */
+export const replayRequest = async (
+	request: ReplayRequest,
+	original: { url: string; headers: Record<string, string> } | undefined,
+) => {
+	const url = new URL(request.url);
+	const originalHeaders =
+		original && new URL(original.url).origin === url.origin
+			? original.headers
+			: {};
+
+	const headers = new Headers();
+	for (const [name, value] of Object.entries(request.headers)) {
+		const key = name.toLowerCase();
+		if (OMITTED_HEADERS.includes(key)) continue;
+		headers.set(
+			name,
+			value === REDACTED_VALUE ? (originalHeaders[key] ?? value) : value,
+		);
+	}
+
+	const method = request.method.toUpperCase();
+	const body =
+		request.body === undefined || METHODS_WITHOUT_BODY.includes(method)
+			? undefined
+			: request.bodyEncoding === "base64"
+				? Buffer.from(request.body, "base64")
+				: request.body;
+
+	const response = await replayedRequestId.run(request.id, () =>
+		fetch(url, { method, headers, body }),
+	);
+	// Response is captured by the interceptor, the body only has to be read
+	await response.arrayBuffer();
+};
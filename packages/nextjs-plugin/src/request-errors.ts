@@ -0,0 +1,136 @@
+import diagnosticsChannel from "node:diagnostics_channel";
+import http from "node:http";
+import http2 from "node:http2";
+import https from "node:https";
+import type { RequestError } from "@/packages/types";
+import {
+	channelRequestScopes,
+	type RequestScope,
+	requestScope,
+} from "./request-scope";
+
+export type RequestErrorDetails = Omit<RequestError, "id" | "end">;
+
+const readCode = (error: unknown) => {
+	const code = (error as { code?: unknown } | undefined)?.code;
+	return typeof code === "string" ? code : undefined;
+};
+
+const stringifyReason = (reason: unknown) =>
+	reason instanceof Error ? reason.message : String(reason);
+
+const describeError = (
+	error: unknown,
+	signal: AbortSignal | undefined,
+): RequestErrorDetails => {
+	// Fetch rejects with generic "fetch failed", details are in the cause
+	const cause =
+		error instanceof Error && error.cause instanceof Error
+			? error.cause
+			: undefined;
+	const name = error instanceof Error ? error.name : undefined;
+	const aborted =
+		signal?.aborted || name === "AbortError" || name === "TimeoutError";
+
+	return {
+		code:
+			readCode(cause) ??
+			readCode(error) ??
+			(name === "AbortError" || name === "TimeoutError" ? name : undefined),
+		message: stringifyReason(cause ?? error),
+		aborted: Boolean(aborted),
+		abortReason: signal?.aborted ? stringifyReason(signal.reason) : undefined,
+	};
+};
+
+// Listening to `error` would swallow errors which should crash the app
+const observeErrors = <T extends { emit: (...args: never[]) => boolean }>(
+	emitter: T,
+	onError: (error: unknown) => void,
+) => {
+	const emit = emitter.emit;
+	emitter.emit = function (
+		this: T,
+		event: string | symbol,
+		...args: unknown[]
+	) {
+		if (event === "error") onError(args[0]);
+		return (emit as (...args: unknown[]) => boolean).call(this, event, ...args);
+	} as T["emit"];
+};
+
+/**
+ * Reports failed `fetch`, `http(s).request`, `http2` and `undici` requests,
+ * e.g. refused connections, DNS errors, timeouts and aborts.
+ * Has to be called after the interceptors are applied.
+ *
+ * @returns function restoring the original implementations
+ */
+export const trackRequestErrors = (
+	onError: (requestId: string, error: RequestErrorDetails) => void,
+) => {
+	const report = (scope: RequestScope, error: unknown) => {
+		if (scope.requestId) {
+			onError(scope.requestId, describeError(error, scope.signal));
+		}
+	};
+
+	const originalFetch = globalThis.fetch;
+	globalThis.fetch = (...args) => {
+		const scope: RequestScope = { client: "fetch" };
+		return requestScope
+			.run(scope, () => originalFetch(...args))
+			.catch((error) => {
+				report(scope, error);
+				throw error;
+			});
+	};
+
+	const restoreModules = [http, https].flatMap((module) =>
+		(["request", "get"] as const).map((method) => {
+			const original = module[method];
+			module[method] = ((...args: Parameters<typeof http.request>) => {
+				const scope: RequestScope = { client: "http" };
+				const request = requestScope.run(scope, () =>
+					(original as typeof http.request)(...args),
+				);
+
+				observeErrors(request, (error) => report(scope, error));
+				return request;
+			}) as typeof http.request;
+
+			return () => {
+				module[method] = original;
+			};
+		}),
+	);
+
+	const originalConnect = http2.connect;
+	http2.connect = ((...args: Parameters<typeof http2.connect>) => {
+		const session = originalConnect(...args);
+		const originalRequest = session.request;
+		session.request = ((...requestArgs) => {
+			const scope: RequestScope = { client: "http2" };
+			const stream = requestScope.run(scope, () =>
+				originalRequest.apply(session, requestArgs),
+			);
+			observeErrors(stream, (error) => report(scope, error));
+			return stream;
+		}) as typeof session.request;
+		return session;
+	}) as typeof http2.connect;
+
+	const onUndiciError = (message: unknown) => {
+		const { request, error } = message as { request: object; error: unknown };
+		const scope = channelRequestScopes.get(request);
+		if (scope) report(scope, error);
+	};
+	diagnosticsChannel.subscribe("undici:request:error", onUndiciError);
+
+	return () => {
+		globalThis.fetch = originalFetch;
+		for (const restore of restoreModules) restore();
+		http2.connect = originalConnect;
+		diagnosticsChannel.unsubscribe("undici:request:error", onUndiciError);
+	};
+};
@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { ConnectionTiming } from "./timings";
+
+export interface RequestScope {
+	// Unlike other clients, `fetch` decodes compressed bodies before they're captured
+	client: "fetch" | "http" | "http2" | "undici";
+	requestId?: string;
+	signal?: AbortSignal;
+	// Only set when a new connection was opened for the request
+	connection?: ConnectionTiming;
+}
+
+// Interceptors don't expose what happens around the request, so calls are
+// wrapped to tie errors and socket events back to the intercepted request
+export const requestScope = new AsyncLocalStorage<RequestScope>();
+
+// Requests observed through diagnostics channels aren't made inside a wrapped
+// call, their scopes are looked up by the request object of the client instead
+export const channelRequestScopes = new WeakMap<object, RequestScope>();
+
+/**
+ * Links intercepted request to the call which made it, has to be called
+ * synchronously from the interceptor `request` listener
+ *
+ * @returns scope of the call, `undefined` when made by an unwrapped client
+ */
+export const bindRequest = (requestId: string, signal: AbortSignal) => {
+	const scope = requestScope.getStore();
+	if (scope) {
+		scope.requestId = requestId;
+		scope.signal = signal;
+	}
+	return scope;
+};
@@ -0,0 +1,99 @@
+import { randomUUID } from "node:crypto";
+import type { TrafficPattern } from "@/packages/types";
+import {
+	createTrafficMatcher,
+	isTrafficPattern,
+	type TrafficTarget,
+} from "./traffic-filter";
+import { isObject } from "./utils";
+
+/**
+ * Rule applied to matching outgoing requests, e.g. a mock or a fault
+ */
+export interface Rule extends TrafficPattern {
+	id: string;
+	enabled: boolean;
+}
+
+/**
+ * Rule as passed to the plugin options, rules are enabled by default
+ */
+export type RuleOptions<R extends Rule> = Omit<R, "id" | "enabled"> &
+	Partial<Pick<R, "id" | "enabled">>;
+
+export const resolveRules = <R extends Rule>(
+	rules: RuleOptions<R>[] = [],
+): R[] =>
+	rules.map(
+		(rule) =>
+			({
+				...rule,
+				id: rule.id ?? randomUUID(),
+				enabled: rule.enabled ?? true,
+			}) as R,
+	);
+
+// Rules sent by clients aren't trusted to match the types
+const getRuleShapeIssue = (rule: unknown) => {
+	if (!isObject(rule)) return "it isn't an object";
+	if (typeof rule.id !== "string" || typeof rule.enabled !== "boolean") {
+		return "id or enabled flag is missing";
+	}
+	if (!isTrafficPattern(rule)) return "pattern is invalid";
+	return undefined;
+};
+
+const describeRule = (rule: unknown) =>
+	isObject(rule) ? String(rule.url ?? rule.host ?? rule.id) : String(rule);
+
+/**
+ * Keeps rules which can be changed by clients at any time
+ *
+ * @param name - used in warnings, e.g. `"mock"`
+ * @param getIssue - tells why a rule can't be applied, invalid rules are left
+ * out. Called only for rules of the right shape, other fields are unchecked.
+ */
+export const createRuleSet = <R extends Rule>(
+	name: string,
+	getIssue: (rule: R) => string | undefined,
+	initialRules: R[],
+) => {
+	let rules: R[] = [];
+	let matchers: {
+		rule: R;
+		matches: (target: TrafficTarget) => boolean;
+	}[] = [];
+
+	const set = (newRules: unknown) => {
+		if (!Array.isArray(newRules)) {
+			console.warn(`NextNetwork: Ignoring ${name} rules, expected an array`);
+			return;
+		}
+
+		rules = newRules.filter((rule): rule is R => {
+			const issue = getRuleShapeIssue(rule) ?? getIssue(rule);
+			if (issue) {
+				console.warn(
+					`NextNetwork: Ignoring ${name} rule ${describeRule(rule)}, ${issue}`,
+				);
+			}
+			return !issue;
+		});
+		matchers = rules.map((rule) => ({
+			rule,
+			matches: createTrafficMatcher({ include: [rule] }),
+		}));
+	};
+	set(initialRules);
+
+	return {
+		getAll: () => rules,
+		set,
+		/**
+		 * @returns first enabled rule matching the request
+		 */
+		match: (target: TrafficTarget) =>
+			matchers.find(({ rule, matches }) => rule.enabled && matches(target))
+				?.rule,
+	};
+};
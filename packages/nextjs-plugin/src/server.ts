@@ -1,55 +1,382 @@
+import { randomUUID } from "node:crypto";
 import { createServer as createHttpServer } from "node:http";
+import type { WebSocketData } from "@mswjs/interceptors/WebSocket";
 import { context, propagation, trace } from "@opentelemetry/api";
-import type {
-	ReadableSpan,
-	SpanProcessor,
-} from "@opentelemetry/sdk-trace-node";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
 import { type WebSocket, WebSocketServer } from "ws";
 import type {
 	BroadcastedServerEvents,
+	CaptureStateEvent,
 	CatchUpEvent,
 	ClientEvent,
+	FaultRulesEvent,
+	HelloEvent,
+	MockRulesEvent,
+	ReplayErrorEvent,
+	RequestSpan,
+	ResumeEvent,
+	Sequenced,
+	WebSocketClose,
+	WebSocketMessage,
 } from "@/packages/types";
-import { createInterceptor } from "./interceptor";
-import { hrTimeToMilliseconds } from "./utils";
+import { createApiHandler } from "./api";
+import { captureBody, captureWebSocketData, isStreamingResponse } from "./body";
+import { trackConsoleLogs } from "./console-logs";
+import {
+	type CapturedException,
+	getSpanExceptions,
+	trackUncaughtExceptions,
+} from "./exceptions";
+import { applyFault, createFaultRules } from "./faults";
+import { createEventHistory, createExpiringMap } from "./history";
+import { createInterceptor, createWebSocketInterceptor } from "./interceptor";
+import type {
+	CapturedLog,
+	NextNetworkLogRecordProcessor,
+} from "./log-processor";
+import { createMockRules, isMockable, respondWithMock } from "./mocks";
+import type { ResolvedOptions } from "./options";
+import { createRedactor } from "./redaction";
+import { getReplayedRequestId, isReplayRequest, replayRequest } from "./replay";
+import { trackRequestErrors } from "./request-errors";
+import { bindRequest, type RequestScope } from "./request-scope";
+import { getPayloadSize } from "./size";
+import type { NextNetworkSpanProcessor } from "./span-processor";
+import { createSpanSampler } from "./span-sampler";
+import { serializeSpan } from "./spans";
+import { getTimingPhases, now, trackConnectionTimings } from "./timings";
+import {
+	createTrafficMatcher,
+	getRequestTarget,
+	getSpanTarget,
+	isTrafficFilter,
+	type TrafficMatcher,
+	type TrafficTarget,
+} from "./traffic-filter";
+import { getNextVersion, PLUGIN_VERSION, PROTOCOL_VERSION } from "./version";
+
+// Clients which never send `resume` get the whole history after this delay
+const RESUME_TIMEOUT_MS = 1000;
+// Live events are collected for this long and sent to clients in one frame
+const BATCH_INTERVAL_MS = 50;
+// Clients can read captured traffic and replay requests with the app's
+// credentials, web pages opened by the developer mustn't connect.
+// Non-browser clients don't send an origin.
+const ALLOWED_ORIGIN = /^(chrome|moz|safari-web)-extension:\/\//;
+
+const isAllowedOrigin = (origin: string | undefined) =>
+	!origin || ALLOWED_ORIGIN.test(origin);
 
-// Key is requestID
-const requestTimings = new Map<string, { startMs: number }>();
-const spans = new Map<string, ReadableSpan>();
-let sentEvents: BroadcastedServerEvents[] = [];
+export const createServer = (
+	spanProcessor: NextNetworkSpanProcessor,
+	logProcessor: NextNetworkLogRecordProcessor,
+	options: Pick<
+		ResolvedOptions,
+		| "history"
+		| "spanTtlMs"
+		| "redact"
+		| "maxBodySize"
+		| "capture"
+		| "minSpanDurationMs"
+		| "mocks"
+		| "faults"
+	>,
+) => {
+	const redactor = createRedactor(options.redact);
+	// Key is requestID
+	const requestTimings = createExpiringMap<
+		string,
+		{ startMs: number; scope?: RequestScope }
+	>(options.spanTtlMs);
+	const spans = createExpiringMap<string, ReadableSpan>(options.spanTtlMs);
+	const isCaptured = createTrafficMatcher(options.capture);
+	// Spans excluded by capture rules, their descendants are excluded as well
+	const excludedSpans = createExpiringMap<string, true>(options.spanTtlMs);
+	// Spans whose span-start was broadcasted and span-end is still due
+	const openSpans = createExpiringMap<string, true>(options.spanTtlMs);
+	// Key is requestID, only captured requests are present
+	const requestTargets = createExpiringMap<string, TrafficTarget>(
+		options.spanTtlMs,
+	);
+	// Unmasked URLs and headers of captured requests, replays need the originals
+	const originalRequests = createExpiringMap<
+		string,
+		{ url: string; headers: Record<string, string> }
+	>(options.spanTtlMs);
+	const subscriptions = new Map<WebSocket, TrafficMatcher>();
+	const mockRules = createMockRules(options.mocks);
+	const faultRules = createFaultRules(options.faults);
+	const sentEvents = createEventHistory<Sequenced<BroadcastedServerEvents>>(
+		options.history,
+	);
+	const sessionId = randomUUID();
+	let lastSeq = 0;
+	let capturePaused = false;
+	// Serialized events waiting for the next batch
+	let pendingEvents: { message: string; target: TrafficTarget | undefined }[] =
+		[];
+	let flushTimeout: NodeJS.Timeout | undefined;
+	const helloEvent: HelloEvent = {
+		type: "hello",
+		data: {
+			protocolVersion: PROTOCOL_VERSION,
+			pluginVersion: PLUGIN_VERSION,
+			nextVersion: getNextVersion(),
+			nodeVersion: process.versions.node,
+			pid: process.pid,
+			capabilities: [
+				"resume",
+				"response-chunks",
+				"rest-api",
+				"pause-capture",
+				"subscribe",
+				"batch",
+				"request-error",
+				"timing-phases",
+				"payload-size",
+				"websocket",
+				"db-queries",
+				"logs",
+				"exceptions",
+				"mocks",
+				"faults",
+				"replay",
+			],
+		},
+	};
+
+	const clients = new Set<WebSocket>();
+	const handleApiRequest = createApiHandler({
+		history: sentEvents,
+		getClientsCount: () => clients.size,
+		isCapturePaused: () => capturePaused,
+	});
 
-export const createServer = (spanProcessor: SpanProcessor) => {
 	const server = createHttpServer((req, res) => {
-		// Set CORS headers
-		res.setHeader("Access-Control-Allow-Origin", "*");
-		res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-		res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+		const { origin } = req.headers;
 		res.setHeader("Content-Type", "application/json");
 
+		if (!isAllowedOrigin(origin)) {
+			res.writeHead(403);
+			res.end(JSON.stringify({ error: "Origin not allowed" }));
+			return;
+		}
+
+		// Only extensions get CORS headers, other clients don't need them
+		if (origin) {
+			res.setHeader("Access-Control-Allow-Origin", origin);
+			res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+			res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+			res.setHeader("Vary", "Origin");
+		}
+
 		if (req.method === "OPTIONS") {
 			res.writeHead(200);
 			res.end();
 			return;
 		}
 
+		if (handleApiRequest(req, res)) return;
+
 		// 404 for unmatched routes
 		res.writeHead(404);
 		res.end(JSON.stringify({ error: "Not found" }));
 	});
 
 	// --- WebSocket server setup ---
-	const wss = new WebSocketServer({ server });
-	const clients = new Set<WebSocket>();
+	const wss = new WebSocketServer({
+		server,
+		// Small frames aren't worth the compression overhead
+		perMessageDeflate: { threshold: 1024 },
+		verifyClient: ({ origin }: { origin?: string }) => isAllowedOrigin(origin),
+	});
 
-	wss.on("connection", (ws: WebSocket) => {
-		clients.add(ws);
+	// Errors of the underlying HTTP server are re-emitted here, they are
+	// already handled by the HTTP server listener so only prevent the crash
+	wss.on("error", () => {});
+
+	const getEventTarget = (
+		event: BroadcastedServerEvents,
+	): TrafficTarget | undefined => {
+		switch (event.type) {
+			case "request":
+				return getRequestTarget(event.data.url, event.data.method);
+			case "response":
+			case "response-chunk":
+			case "request-error":
+			case "websocket-open":
+			case "websocket-message":
+			case "websocket-close":
+				return requestTargets.get(event.data.id);
+			case "span-start":
+			case "span-end":
+				return getSpanTarget(event.data);
+			case "log":
+			case "exception":
+				// Logs and exceptions aren't matched, their spans are
+				return undefined;
+		}
+	};
+
+	// Events which can't be matched are always sent
+	const isSubscribed = (ws: WebSocket, target: TrafficTarget | undefined) =>
+		!target || (subscriptions.get(ws)?.(target) ?? true);
+
+	const createCatchUpEvent = (
+		ws: WebSocket,
+		resume: ResumeEvent["data"] | undefined,
+	): CatchUpEvent => {
+		const getEvents = (events: Sequenced<BroadcastedServerEvents>[]) =>
+			subscriptions.has(ws)
+				? events.filter((event) => isSubscribed(ws, getEventTarget(event)))
+				: events;
+
+		const resumeFrom =
+			resume?.sessionId === sessionId ? resume.lastSeq : undefined;
 
-		const catchUpEvent: CatchUpEvent = {
+		if (resumeFrom !== undefined && resumeFrom <= lastSeq) {
+			const allEvents = sentEvents.getAfter(resumeFrom);
+			const events = getEvents(allEvents);
+			// Events between the last seen and the oldest kept one were evicted
+			const missedCount = (allEvents[0]?.seq ?? lastSeq + 1) - resumeFrom - 1;
+
+			return {
+				type: "catch-up",
+				data:
+					missedCount > 0
+						? [
+								{ type: "events-dropped", data: { count: missedCount } },
+								...events,
+							]
+						: events,
+				sessionId,
+				seq: lastSeq,
+				resumed: true,
+			};
+		}
+
+		return {
 			type: "catch-up",
-			data: sentEvents,
+			data: sentEvents.droppedCount
+				? [
+						{
+							type: "events-dropped",
+							data: { count: sentEvents.droppedCount },
+						},
+						...getEvents(sentEvents.getAll()),
+					]
+				: getEvents(sentEvents.getAll()),
+			sessionId,
+			seq: lastSeq,
 		};
+	};
 
-		ws.send(JSON.stringify(catchUpEvent));
+	const createCaptureStateEvent = (): CaptureStateEvent => ({
+		type: "capture-state",
+		data: { paused: capturePaused },
+	});
+
+	const createMockRulesEvent = (): MockRulesEvent => ({
+		type: "mock-rules",
+		data: mockRules.getAll(),
+	});
+
+	const createFaultRulesEvent = (): FaultRulesEvent => ({
+		type: "fault-rules",
+		data: faultRules.getAll(),
+	});
+
+	const createReplayErrorEvent = (
+		id: string | undefined,
+		error: unknown,
+	): ReplayErrorEvent => ({
+		type: "replay-error",
+		data: {
+			id,
+			message: error instanceof Error ? error.message : String(error),
+		},
+	});
+
+	wss.on("connection", (ws: WebSocket) => {
+		ws.send(JSON.stringify(helloEvent));
+
+		// Live events are only sent once the client caught up to avoid gaps
+		const catchUp = (resume?: ResumeEvent["data"]) => {
+			clearTimeout(resumeTimeout);
+			if (clients.has(ws)) return;
+
+			// Pending events are part of the history already
+			flushEvents();
+			ws.send(JSON.stringify(createCatchUpEvent(ws, resume)));
+			ws.send(JSON.stringify(createCaptureStateEvent()));
+			ws.send(JSON.stringify(createMockRulesEvent()));
+			ws.send(JSON.stringify(createFaultRulesEvent()));
+			clients.add(ws);
+		};
+		const resumeTimeout = setTimeout(catchUp, RESUME_TIMEOUT_MS);
+
+		const handleClientEvent = (event: ClientEvent) => {
+			switch (event.type) {
+				case "resume":
+					catchUp(event.data);
+					break;
+				case "clear-all":
+					sentEvents.clear();
+					break;
+				case "pause-capture":
+				case "resume-capture":
+					capturePaused = event.type === "pause-capture";
+					flushEvents();
+					for (const client of clients) {
+						send(client, JSON.stringify(createCaptureStateEvent()));
+					}
+					break;
+				case "subscribe":
+					if (!isTrafficFilter(event.data)) {
+						console.warn("NextNetwork: Ignoring invalid subscription filter");
+						break;
+					}
+					subscriptions.set(ws, createTrafficMatcher(event.data));
+					// Previously filtered out events are missing, replay everything
+					if (clients.has(ws)) {
+						flushEvents();
+						ws.send(JSON.stringify(createCatchUpEvent(ws, undefined)));
+					}
+					break;
+				case "set-mock-rules":
+					mockRules.set(event.data);
+					for (const client of clients) {
+						send(client, JSON.stringify(createMockRulesEvent()));
+					}
+					break;
+				case "set-fault-rules":
+					faultRules.set(event.data);
+					for (const client of clients) {
+						send(client, JSON.stringify(createFaultRulesEvent()));
+					}
+					break;
+				case "replay-request": {
+					const request = event.data;
+					if (!isReplayRequest(request)) {
+						send(
+							ws,
+							JSON.stringify(
+								createReplayErrorEvent(undefined, "Replay request is invalid"),
+							),
+						);
+						break;
+					}
+					replayRequest(request, originalRequests.get(request.id)).catch(
+						(error) =>
+							send(
+								ws,
+								JSON.stringify(createReplayErrorEvent(request.id, error)),
+							),
+					);
+					break;
+				}
+			}
+		};
 
 		ws.on("message", (data) => {
 			let event: ClientEvent | undefined;
@@ -60,67 +387,171 @@ export const createServer = (spanProcessor: SpanProcessor) => {
 				return;
 			}
 
-			if (event.type === "clear-all") {
-				sentEvents = [];
+			// Malformed events mustn't take the app down
+			try {
+				handleClientEvent(event);
+			} catch (error) {
+				console.error("Error handling message", error);
 			}
 		});
 
 		ws.on("close", () => {
+			clearTimeout(resumeTimeout);
 			clients.delete(ws);
+			subscriptions.delete(ws);
 		});
 	});
 
+	// Requests sent and spans started before the pause are completed, otherwise
+	// they stay pending
+	const isCompletionEvent = (event: BroadcastedServerEvents) => {
+		switch (event.type) {
+			case "span-end":
+				return Boolean(event.data.spanId && openSpans.get(event.data.spanId));
+			case "response":
+			case "request-error":
+			case "websocket-open":
+			case "websocket-close":
+				return Boolean(requestTargets.get(event.data.id));
+			default:
+				return false;
+		}
+	};
+
 	function broadcast(event: BroadcastedServerEvents) {
-		sentEvents.push(event);
-		const message = JSON.stringify(event);
+		// Nothing new is kept while paused
+		if (capturePaused && !isCompletionEvent(event)) return;
+		if (event.type === "span-start" || event.type === "span-end") {
+			const { spanId } = event.data;
+			if (spanId && event.type === "span-start") openSpans.set(spanId, true);
+			else if (spanId) openSpans.delete(spanId);
+		}
+		// Span of the request, log or exception may still be held back
+		if (
+			event.type === "request" ||
+			event.type === "log" ||
+			event.type === "exception"
+		) {
+			spanSampler.release(event.data.spanId);
+		}
+
+		const sequencedEvent = { ...event, seq: ++lastSeq };
+		const message = JSON.stringify(sequencedEvent);
+		sentEvents.push(sequencedEvent, Buffer.byteLength(message));
+		pendingEvents.push({ message, target: getEventTarget(event) });
+		flushTimeout ??= setTimeout(flushEvents, BATCH_INTERVAL_MS);
+	}
+
+	function flushEvents() {
+		clearTimeout(flushTimeout);
+		flushTimeout = undefined;
+		if (pendingEvents.length === 0) return;
+
+		const events = pendingEvents;
+		pendingEvents = [];
 		for (const ws of clients) {
-			if (ws.readyState === ws.OPEN) {
-				try {
-					ws.send(message);
-				} catch (e) {
-					console.error("Error sending message to client:", e);
-					// Remove faulty client
-					clients.delete(ws);
-				}
-			}
+			const messages = events
+				.filter((event) => isSubscribed(ws, event.target))
+				.map((event) => event.message);
+			if (messages.length === 0) continue;
+
+			// Events are serialized already, avoid doing it again for every client
+			send(ws, `{"type":"batch","data":[${messages.join(",")}]}`);
 		}
 	}
 
-	spanProcessor.onStart = (span) => {
-		spans.set(span.spanContext().spanId, span);
+	function send(ws: WebSocket, message: string) {
+		if (ws.readyState !== ws.OPEN) return;
+		try {
+			ws.send(message);
+		} catch (e) {
+			console.error("Error sending message to client:", e);
+			// Remove faulty client
+			clients.delete(ws);
+		}
+	}
 
+	const spanSampler = createSpanSampler(options.minSpanDurationMs, (span) =>
 		broadcast({
 			type: "span-start",
+			data: redactor.span(serializeSpan(span, false)),
+		}),
+	);
+
+	spanProcessor.subscribe({
+		onStart: (span) => {
+			const { spanId } = span.spanContext();
+			spans.set(spanId, span);
+
+			const data = serializeSpan(span, false);
+			const target = getSpanTarget(data);
+			const parentSpanId = span.parentSpanContext?.spanId;
+			if (
+				(parentSpanId && excludedSpans.get(parentSpanId)) ||
+				(target && !isCaptured(target))
+			) {
+				excludedSpans.set(spanId, true);
+				return;
+			}
+
+			spanSampler.start(span);
+		},
+		onEnd: (span) => {
+			const { spanId } = span.spanContext();
+			spans.set(spanId, span);
+			if (excludedSpans.get(spanId)) return;
+
+			// Failed spans are kept however short they are
+			const exceptions = getSpanExceptions(span);
+			if (exceptions.length > 0) spanSampler.release(spanId);
+			if (!spanSampler.end(span)) return;
+
+			broadcast({
+				type: "span-end",
+				data: redactor.span(serializeSpan(span, true)),
+			});
+			for (const exception of exceptions) handleException(exception);
+		},
+	});
+
+	const handleLog = (log: CapturedLog) => {
+		if (capturePaused || excludedSpans.get(log.spanId)) return;
+
+		const truncated = log.message.length > options.maxBodySize;
+		broadcast({
+			type: "log",
 			data: {
-				id: span.attributes["next.span_name"]?.toString() ?? span.name,
-				spanId: span.spanContext().spanId,
-				start: hrTimeToMilliseconds(span.startTime),
-				traceId: span.spanContext().traceId,
-				parentSpan: span.parentSpanContext,
+				...log,
+				id: randomUUID(),
+				message: truncated
+					? log.message.slice(0, options.maxBodySize)
+					: log.message,
+				truncated: truncated || undefined,
 			},
 		});
 	};
+	logProcessor.subscribe(handleLog);
+	trackConsoleLogs(handleLog);
+
+	const handleException = (exception: CapturedException) => {
+		if (
+			capturePaused ||
+			(exception.spanId && excludedSpans.get(exception.spanId))
+		) {
+			return;
+		}
 
-	spanProcessor.onEnd = (span) => {
-		spans.set(span.spanContext().spanId, span);
 		broadcast({
-			type: "span-end",
-			data: {
-				id: span.attributes["next.span_name"]?.toString() ?? span.name,
-				spanId: span.spanContext().spanId,
-				start: hrTimeToMilliseconds(span.startTime),
-				traceId: span.spanContext().traceId,
-				parentSpan: span.parentSpanContext,
-				end: hrTimeToMilliseconds(span.endTime),
-			},
+			type: "exception",
+			data: { ...exception, id: randomUUID() },
 		});
+		// The process may be about to exit, don't wait for the batch
+		if (exception.source !== "span") flushEvents();
 	};
+	trackUncaughtExceptions(handleException);
 
-	const getSpanContext = (entity: Request | Response) => {
-		const extractedContext = propagation.extract(
-			context.active(),
-			entity.headers,
-		);
+	const getSpanContext = (headers: Headers) => {
+		const extractedContext = propagation.extract(context.active(), headers);
 		let spanId: string | undefined, traceId: string | undefined;
 		let parentSpan: { spanId: string; traceId: string } | undefined;
 		const activeSpan = trace.getSpan(extractedContext);
@@ -141,53 +572,286 @@ export const createServer = (spanProcessor: SpanProcessor) => {
 		return { spanId, traceId, parentSpan };
 	};
 
+	// Requests slowed down by fault rules are sent without being intercepted again
+	const passthroughFetch = globalThis.fetch;
 	const interceptor = createInterceptor();
 
+	trackConnectionTimings();
+	trackRequestErrors((requestId, error) => {
+		if (!requestTargets.get(requestId)) return;
+
+		requestTimings.delete(requestId);
+		broadcast({
+			type: "request-error",
+			data: { ...error, id: requestId, end: now() },
+		});
+	});
+
 	interceptor.on("request", async (req) => {
-		const start = Date.now();
-		requestTimings.set(req.requestId, { startMs: Date.now() });
-		const context = getSpanContext(req.request);
-		const body = req.request.body
-			? await req.request.clone().text()
-			: undefined;
+		const scope = bindRequest(req.requestId, req.request.signal);
+		const target = getRequestTarget(req.request.url, req.request.method);
+		// Requests which aren't captured are mocked as well, mocks go first
+		const mockRule = isMockable(scope) ? mockRules.match(target) : undefined;
+		const faultRule =
+			isMockable(scope) && !mockRule ? faultRules.match(target) : undefined;
+
+		await recordRequest(req, target, scope, {
+			mockRuleId: mockRule?.id,
+			faultRuleId: faultRule?.id,
+		});
+		if (mockRule) {
+			await respondWithMock(req.controller, mockRule);
+		} else if (faultRule) {
+			await applyFault(req, faultRule, passthroughFetch);
+		}
+	});
+
+	const recordRequest = async (
+		req: { requestId: string; request: Request },
+		target: TrafficTarget,
+		scope: RequestScope | undefined,
+		rules: Pick<RequestSpan, "mockRuleId" | "faultRuleId">,
+	) => {
+		if (capturePaused) return;
+
+		const context = getSpanContext(req.request.headers);
+		if (
+			(context.spanId && excludedSpans.get(context.spanId)) ||
+			!isCaptured(target)
+		) {
+			return;
+		}
+		requestTargets.set(req.requestId, target);
+
+		const start = now();
+		requestTimings.set(req.requestId, { startMs: start, scope });
+		const headers = Object.fromEntries(req.request.headers.entries());
+		originalRequests.set(req.requestId, { url: req.request.url, headers });
+		const replayOf = getReplayedRequestId();
+		const body = await captureBody(req.request, options.maxBodySize);
+		// Paused while the body was read, the request is never sent
+		if (capturePaused) {
+			requestTargets.delete(req.requestId);
+			return;
+		}
 
 		broadcast({
 			type: "request",
-			data: {
+			data: redactor.request({
 				...context,
 				id: req.requestId,
 				method: req.request.method,
 				url: req.request.url,
-				headers: Object.fromEntries(req.request.headers.entries()),
-				body,
+				headers,
+				...body,
+				size: getPayloadSize(req.request.headers, body.contentLength),
 				start,
-			},
+				...rules,
+				replayOf,
+			}),
 		});
-	});
+	};
 
-	interceptor.on("response", async (res) => {
-		const context = getSpanContext(res.response);
+	interceptor.on("response", (res) => {
+		// Requests made while paused or excluded by capture rules
+		if (!requestTargets.get(res.requestId)) return;
+
+		const firstByte = now();
+		const context = getSpanContext(res.response.headers);
 
 		const timing = requestTimings.get(res.requestId);
 		if (timing) {
 			requestTimings.delete(res.requestId);
 		}
-		const body = res.response.body
-			? await res.response.clone().text()
-			: undefined;
+		const responseData = {
+			...context,
+			id: res.requestId,
+			status: res.response.status,
+			statusText: res.response.statusText,
+			headers: Object.fromEntries(res.response.headers.entries()),
+			start: timing?.startMs ?? 0,
+		};
+		const streaming = isStreamingResponse(res.response);
+		const getTimings = (end?: number) =>
+			timing &&
+			getTimingPhases({
+				start: timing.startMs,
+				connection: timing.scope?.connection,
+				firstByte,
+				end,
+			});
+
+		// Let clients know about the response right away as the stream may never end
+		if (streaming) {
+			broadcast({
+				type: "response",
+				data: redactor.response({
+					...responseData,
+					streaming,
+					body: undefined,
+					timings: getTimings(),
+				}),
+			});
+		}
+
+		// Not awaited, the app only gets the response once listeners are done.
+		// The body is cloned before the first `await` so the app can read it.
+		captureBody(
+			res.response,
+			options.maxBodySize,
+			streaming
+				? (chunk) =>
+						broadcast({
+							type: "response-chunk",
+							data: redactor.chunk({
+								...chunk,
+								id: res.requestId,
+								timestamp: now(),
+							}),
+						})
+				: undefined,
+		)
+			.then((body) => {
+				const end = now();
+				broadcast({
+					type: "response",
+					data: redactor.response({
+						...responseData,
+						streaming,
+						...body,
+						size: getPayloadSize(
+							res.response.headers,
+							body.contentLength,
+							timing?.scope?.client === "fetch",
+						),
+						end,
+						timings: getTimings(end),
+					}),
+				});
+			})
+			.catch((error) => {
+				// E.g. the connection was reset while the body was being received
+				broadcast({
+					type: "request-error",
+					data: {
+						id: res.requestId,
+						message: error instanceof Error ? error.message : String(error),
+						aborted: false,
+						end: now(),
+					},
+				});
+			});
+	});
+
+	const webSocketInterceptor = createWebSocketInterceptor();
+	webSocketInterceptor.on("connection", ({ client, server: connection }) => {
+		if (capturePaused) return;
+
+		const { id } = client;
+		const url = client.url.href;
+		const context = getSpanContext(new Headers());
+		const target = getRequestTarget(url, "GET");
+		if (
+			(context.spanId && excludedSpans.get(context.spanId)) ||
+			!isCaptured(target)
+		) {
+			return;
+		}
+		requestTargets.set(id, target);
 
 		broadcast({
-			type: "response",
-			data: {
+			type: "request",
+			data: redactor.request({
 				...context,
-				id: res.requestId,
-				status: res.response.status,
-				statusText: res.response.statusText,
-				headers: Object.fromEntries(res.response.headers.entries()),
-				body: body,
-				start: timing?.startMs ?? 0,
-				end: Date.now(),
-			},
+				id,
+				method: "GET",
+				url,
+				headers: {},
+				body: undefined,
+				start: now(),
+			}),
+		});
+
+		let opened = false;
+		let closed = false;
+		let messageIndex = 0;
+		// Binary messages are read asynchronously, this keeps them in order
+		let queue = Promise.resolve();
+		const enqueue = (task: () => void | Promise<void>) => {
+			queue = queue.then(task).catch(() => {});
+		};
+
+		const recordMessage =
+			(direction: WebSocketMessage["direction"]) =>
+			(event: { data: WebSocketData }) => {
+				const index = messageIndex++;
+				const timestamp = now();
+				enqueue(async () => {
+					const message = await captureWebSocketData(
+						event.data,
+						options.maxBodySize,
+					);
+					broadcast({
+						type: "websocket-message",
+						data: redactor.message({
+							...message,
+							id,
+							index,
+							direction,
+							timestamp,
+						}),
+					});
+				});
+			};
+
+		const recordClose = (
+			event: Pick<WebSocketClose, "code" | "reason" | "wasClean">,
+		) => {
+			if (closed) return;
+			closed = true;
+			const end = now();
+			enqueue(() => {
+				broadcast({
+					type: "websocket-close",
+					data: {
+						id,
+						code: event.code,
+						reason: event.reason,
+						wasClean: event.wasClean,
+						end,
+					},
+				});
+				requestTargets.delete(id);
+			});
+		};
+
+		client.addEventListener("message", recordMessage("outgoing"));
+		client.addEventListener("close", recordClose);
+		connection.addEventListener("message", recordMessage("incoming"));
+		connection.addEventListener("close", recordClose);
+		connection.addEventListener("open", () => {
+			opened = true;
+			broadcast({
+				type: "websocket-open",
+				data: {
+					id,
+					protocol: connection.socket.protocol || undefined,
+					timestamp: now(),
+				},
+			});
+		});
+		connection.addEventListener("error", () => {
+			if (opened) return;
+			// Handshake failures don't expose the cause
+			broadcast({
+				type: "request-error",
+				data: {
+					id,
+					message: "WebSocket connection failed",
+					aborted: false,
+					end: now(),
+				},
+			});
 		});
 	});
 
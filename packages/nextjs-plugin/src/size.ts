@@ -0,0 +1,46 @@
+import type { PayloadSize } from "@/packages/types";
+
+/**
+ * Size of headers serialized as in HTTP/1.1, without the status or request line
+ */
+export const getHeadersSize = (headers: Headers) => {
+	let size = 0;
+	headers.forEach((value, name) => {
+		size += Buffer.byteLength(`${name}: ${value}\r\n`);
+	});
+	return size;
+};
+
+/**
+ * @param bodyLength - length of the body as read by the client
+ * @param decoded - whether the client removed content encoding of the body
+ */
+export const getPayloadSize = (
+	headers: Headers,
+	bodyLength = 0,
+	decoded = false,
+): PayloadSize => {
+	const headersSize = getHeadersSize(headers);
+	const encoding = headers.get("content-encoding")?.trim().toLowerCase();
+	if (!encoding || encoding === "identity") {
+		return {
+			headers: headersSize,
+			encodedBody: bodyLength,
+			decodedBody: bodyLength,
+		};
+	}
+	if (!decoded) {
+		return { headers: headersSize, encodedBody: bodyLength };
+	}
+
+	// Encoded length is only known when declared by the server
+	const declaredLength = Number.parseInt(
+		headers.get("content-length") ?? "",
+		10,
+	);
+	return {
+		headers: headersSize,
+		encodedBody: Number.isNaN(declaredLength) ? undefined : declaredLength,
+		decodedBody: bodyLength,
+	};
+};
@@ -0,0 +1,81 @@
+import { type Context, ProxyTracerProvider, trace } from "@opentelemetry/api";
+import type {
+	ReadableSpan,
+	Span,
+	SpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+
+export interface SpanListener {
+	onStart?: (span: Span, parentContext: Context) => void;
+	onEnd?: (span: ReadableSpan) => void;
+}
+
+/**
+ * Span processor which passes spans to the plugin server. It can be added to
+ * an existing tracer provider next to other processors, and optionally chains
+ * to `processors` itself so it can wrap them.
+ */
+export class NextNetworkSpanProcessor implements SpanProcessor {
+	private readonly listeners = new Set<SpanListener>();
+
+	constructor(private readonly processors: SpanProcessor[] = []) {}
+
+	/**
+	 * @returns function to remove the listener
+	 */
+	subscribe(listener: SpanListener) {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	onStart(span: Span, parentContext: Context): void {
+		for (const processor of this.processors) {
+			processor.onStart(span, parentContext);
+		}
+		for (const listener of this.listeners) {
+			try {
+				listener.onStart?.(span, parentContext);
+			} catch (error) {
+				console.error("NextNetwork: Failed to process span start", error);
+			}
+		}
+	}
+
+	onEnd(span: ReadableSpan): void {
+		for (const processor of this.processors) {
+			processor.onEnd(span);
+		}
+		for (const listener of this.listeners) {
+			try {
+				listener.onEnd?.(span);
+			} catch (error) {
+				console.error("NextNetwork: Failed to process span end", error);
+			}
+		}
+	}
+
+	async forceFlush(): Promise<void> {
+		await Promise.all(
+			this.processors.map((processor) => processor.forceFlush()),
+		);
+	}
+
+	async shutdown(): Promise<void> {
+		this.listeners.clear();
+		await Promise.all(this.processors.map((processor) => processor.shutdown()));
+	}
+}
+
+/**
+ * Checks whether some other OpenTelemetry setup, e.g. `@vercel/otel`,
+ * has already registered a global tracer provider
+ */
+export const isTracerProviderRegistered = () => {
+	const provider = trace.getTracerProvider();
+	// Provider registered through another copy of the API isn't our proxy class
+	const delegate =
+		provider instanceof ProxyTracerProvider ? provider.getDelegate() : provider;
+	return delegate.constructor.name !== "NoopTracerProvider";
+};
@@ -0,0 +1,67 @@
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+import { hrTimeToMilliseconds } from "./utils";
+
+/**
+ * Holds back starts of spans until they run for `minDurationMs`, spans which
+ * end sooner are dropped. Held spans are released early once something
+ * refers to them, e.g. a request made within the span.
+ *
+ * @param onStart - called with spans which turned out to be long enough
+ */
+export const createSpanSampler = (
+	minDurationMs: number,
+	onStart: (span: ReadableSpan) => void,
+) => {
+	// Key is spanId
+	const heldSpans = new Map<
+		string,
+		{ span: ReadableSpan; timeout: NodeJS.Timeout }
+	>();
+
+	const release = (spanId: string | undefined) => {
+		const held = spanId && heldSpans.get(spanId);
+		if (!held) return;
+
+		clearTimeout(held.timeout);
+		heldSpans.delete(spanId);
+		// Parent has to be known before its children
+		release(held.span.parentSpanContext?.spanId);
+		onStart(held.span);
+	};
+
+	return {
+		start: (span: ReadableSpan) => {
+			if (minDurationMs <= 0) {
+				onStart(span);
+				return;
+			}
+
+			const { spanId } = span.spanContext();
+			const timeout = setTimeout(() => release(spanId), minDurationMs);
+			// Pending timers shouldn't keep the process alive
+			timeout.unref();
+			heldSpans.set(spanId, { span, timeout });
+		},
+		release,
+		/**
+		 * @returns whether the span was kept and its end should be sent
+		 */
+		end: (span: ReadableSpan) => {
+			const { spanId } = span.spanContext();
+			const held = heldSpans.get(spanId);
+			if (!held) return true;
+
+			const duration =
+				hrTimeToMilliseconds(span.endTime) -
+				hrTimeToMilliseconds(span.startTime);
+			if (duration >= minDurationMs) {
+				release(spanId);
+				return true;
+			}
+
+			clearTimeout(held.timeout);
+			heldSpans.delete(spanId);
+			return false;
+		},
+	};
+};
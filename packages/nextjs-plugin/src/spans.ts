@@ -0,0 +1,55 @@
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+import type {
+	ServerSpan,
+	SpanKind as SpanKindName,
+	SpanStatus,
+} from "@/packages/types";
+import { getDbQuery } from "./db";
+import { hrTimeToMilliseconds } from "./utils";
+
+const spanKindNames: Record<SpanKind, SpanKindName> = {
+	[SpanKind.INTERNAL]: "internal",
+	[SpanKind.SERVER]: "server",
+	[SpanKind.CLIENT]: "client",
+	[SpanKind.PRODUCER]: "producer",
+	[SpanKind.CONSUMER]: "consumer",
+};
+
+const spanStatusCodes: Record<SpanStatusCode, SpanStatus["code"]> = {
+	[SpanStatusCode.UNSET]: "unset",
+	[SpanStatusCode.OK]: "ok",
+	[SpanStatusCode.ERROR]: "error",
+};
+
+/**
+ * Converts OpenTelemetry span to a serializable form sent to the clients
+ */
+export const serializeSpan = (
+	span: ReadableSpan,
+	ended: boolean,
+): ServerSpan => ({
+	id: span.attributes["next.span_name"]?.toString() ?? span.name,
+	spanId: span.spanContext().spanId,
+	start: hrTimeToMilliseconds(span.startTime),
+	end: ended ? hrTimeToMilliseconds(span.endTime) : undefined,
+	traceId: span.spanContext().traceId,
+	parentSpan: span.parentSpanContext,
+	kind: spanKindNames[span.kind],
+	attributes: { ...span.attributes },
+	status: {
+		code: spanStatusCodes[span.status.code],
+		message: span.status.message,
+	},
+	events: span.events.map((event) => ({
+		name: event.name,
+		time: hrTimeToMilliseconds(event.time),
+		attributes: event.attributes,
+	})),
+	links: span.links.map((link) => ({
+		spanId: link.context.spanId,
+		traceId: link.context.traceId,
+		attributes: link.attributes,
+	})),
+	db: getDbQuery(span.attributes),
+});
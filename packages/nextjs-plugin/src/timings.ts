@@ -0,0 +1,78 @@
+import diagnosticsChannel from "node:diagnostics_channel";
+import type { Socket } from "node:net";
+import type { TimingPhases } from "@/packages/types";
+import { requestScope } from "./request-scope";
+
+/**
+ * High resolution timestamp in milliseconds since epoch
+ */
+export const now = () => performance.timeOrigin + performance.now();
+
+export interface ConnectionTiming {
+	start: number;
+	dnsEnd?: number;
+	tcpEnd?: number;
+	tlsEnd?: number;
+}
+
+/**
+ * Records DNS lookup, TCP connect and TLS handshake of sockets opened by
+ * wrapped requests, see `trackRequestErrors`. Relies on `net.client.socket`
+ * diagnostics channel which older Node.js versions don't publish, connection
+ * phases are missing there.
+ */
+export const trackConnectionTimings = () => {
+	const onSocket = (message: unknown) => {
+		const scope = requestScope.getStore();
+		const { socket } = message as { socket: Socket };
+		if (!scope || !socket) return;
+
+		const connection: ConnectionTiming = { start: now() };
+		scope.connection = connection;
+		socket.once("lookup", () => {
+			connection.dnsEnd = now();
+		});
+		socket.once("connect", () => {
+			connection.tcpEnd = now();
+		});
+		socket.once("secureConnect", () => {
+			connection.tlsEnd = now();
+		});
+	};
+
+	diagnosticsChannel.subscribe("net.client.socket", onSocket);
+	return () => {
+		diagnosticsChannel.unsubscribe("net.client.socket", onSocket);
+	};
+};
+
+const duration = (from: number | undefined, to: number | undefined) =>
+	from !== undefined && to !== undefined ? Math.max(0, to - from) : undefined;
+
+/**
+ * @param firstByte - when response headers arrived
+ * @param end - when the whole body was read
+ */
+export const getTimingPhases = ({
+	start,
+	connection,
+	firstByte,
+	end,
+}: {
+	start: number;
+	connection?: ConnectionTiming;
+	firstByte: number;
+	end?: number;
+}): TimingPhases => {
+	const dnsEnd = connection?.dnsEnd ?? connection?.start;
+	const connected = connection?.tlsEnd ?? connection?.tcpEnd;
+
+	return {
+		dns: duration(connection?.start, connection?.dnsEnd),
+		tcp: duration(dnsEnd, connection?.tcpEnd),
+		tls: duration(connection?.tcpEnd, connection?.tlsEnd),
+		// Waiting for the server once the connection is ready
+		ttfb: duration(connected ?? start, firstByte),
+		download: duration(firstByte, end),
+	};
+};
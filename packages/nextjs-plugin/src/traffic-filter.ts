@@ -0,0 +1,139 @@
+import type {
+	ServerSpan,
+	TrafficFilter,
+	TrafficPattern,
+} from "@/packages/types";
+import { isObject, isOptionalString } from "./utils";
+
+/**
+ * What the patterns are matched against, fields are missing when unknown
+ */
+export interface TrafficTarget {
+	url?: string;
+	host?: string;
+	path?: string;
+	method?: string;
+}
+
+/**
+ * Patterns sent by clients aren't trusted to match the types
+ */
+export const isTrafficPattern = (value: unknown): value is TrafficPattern =>
+	isObject(value) &&
+	isOptionalString(value.url) &&
+	isOptionalString(value.host) &&
+	(isOptionalString(value.method) ||
+		(Array.isArray(value.method) &&
+			value.method.every((method) => typeof method === "string")));
+
+export const isTrafficFilter = (value: unknown): value is TrafficFilter =>
+	isObject(value) &&
+	[value.include, value.exclude].every(
+		(patterns) =>
+			patterns === undefined ||
+			(Array.isArray(patterns) && patterns.every(isTrafficPattern)),
+	);
+
+const globToRegExp = (glob: string) =>
+	new RegExp(
+		`^${glob
+			.split("*")
+			.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+			.join(".*")}$`,
+		"i",
+	);
+
+const compilePattern = (pattern: TrafficPattern) => {
+	const url = pattern.url ? globToRegExp(pattern.url) : undefined;
+	const matchPath = pattern.url?.startsWith("/");
+	const host = pattern.host ? globToRegExp(pattern.host) : undefined;
+	const methods = pattern.method
+		? [pattern.method].flat().map((method) => method.toUpperCase())
+		: undefined;
+
+	return (target: TrafficTarget) => {
+		if (url) {
+			const value = matchPath ? target.path : target.url;
+			if (value === undefined || !url.test(value)) return false;
+		}
+		if (
+			host &&
+			(target.host === undefined ||
+				// Port is optional in patterns
+				!(
+					host.test(target.host) || host.test(target.host.replace(/:\d+$/, ""))
+				))
+		) {
+			return false;
+		}
+		if (
+			methods &&
+			(target.method === undefined ||
+				!methods.includes(target.method.toUpperCase()))
+		) {
+			return false;
+		}
+		return true;
+	};
+};
+
+/**
+ * @returns predicate telling whether traffic should be kept
+ */
+export const createTrafficMatcher = (filter: TrafficFilter = {}) => {
+	const include = filter.include?.map(compilePattern) ?? [];
+	const exclude = filter.exclude?.map(compilePattern) ?? [];
+
+	return (target: TrafficTarget) =>
+		(include.length === 0 || include.some((matches) => matches(target))) &&
+		!exclude.some((matches) => matches(target));
+};
+
+export type TrafficMatcher = ReturnType<typeof createTrafficMatcher>;
+
+export const getRequestTarget = (
+	url: string,
+	method?: string,
+): TrafficTarget => {
+	try {
+		const parsedUrl = new URL(url);
+		return {
+			url,
+			host: parsedUrl.host,
+			path: parsedUrl.pathname + parsedUrl.search,
+			method,
+		};
+	} catch {
+		return { url, method };
+	}
+};
+
+/**
+ * Reads target from HTTP semantic convention attributes, old and new ones
+ *
+ * @returns `undefined` for spans which aren't HTTP requests
+ */
+export const getSpanTarget = ({
+	attributes = {},
+}: ServerSpan): TrafficTarget | undefined => {
+	const readString = (...keys: string[]) => {
+		for (const key of keys) {
+			const value = attributes[key];
+			if (typeof value === "string") return value;
+		}
+		return undefined;
+	};
+
+	const method = readString("http.request.method", "http.method");
+	const url = readString("url.full", "http.url");
+	if (url) return getRequestTarget(url, method);
+
+	const path = readString("http.target", "url.path");
+	if (!path && !method) return undefined;
+
+	return {
+		host: readString("http.host", "server.address"),
+		path,
+		method,
+	};
+};
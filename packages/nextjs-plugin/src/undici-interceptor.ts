@@ -0,0 +1,160 @@
+import diagnosticsChannel from "node:diagnostics_channel";
+import {
+	createRequestId,
+	FetchResponse,
+	Interceptor,
+} from "@mswjs/interceptors";
+import {
+	channelRequestScopes,
+	type RequestScope,
+	requestScope,
+} from "./request-scope";
+import {
+	createObserverController,
+	type InterceptedRequestEventMap,
+} from "./utils";
+
+// Shape of undici internals published to diagnostics channels
+interface UndiciRequest {
+	origin?: string | URL;
+	path: string;
+	method: string;
+	// Older versions serialize headers to a string
+	headers?: string | unknown[];
+	body?: unknown;
+	// Set for WebSocket handshakes and other protocol upgrades
+	upgrade?: string | null;
+}
+
+interface UndiciResponse {
+	statusCode: number;
+	statusText?: string;
+	headers: Buffer[];
+}
+
+const toHeaders = (rawHeaders: UndiciRequest["headers"]) => {
+	const headers = new Headers();
+	if (typeof rawHeaders === "string") {
+		for (const line of rawHeaders.split("\r\n")) {
+			const separatorIndex = line.indexOf(":");
+			if (separatorIndex > 0) {
+				headers.append(
+					line.slice(0, separatorIndex).trim(),
+					line.slice(separatorIndex + 1).trim(),
+				);
+			}
+		}
+	} else if (Array.isArray(rawHeaders)) {
+		for (let index = 0; index + 1 < rawHeaders.length; index += 2) {
+			headers.append(String(rawHeaders[index]), String(rawHeaders[index + 1]));
+		}
+	}
+	return headers;
+};
+
+/**
+ * @returns `undefined` when the request can't be represented, e.g. CONNECT
+ */
+const toFetchRequest = (request: UndiciRequest) => {
+	try {
+		const body =
+			typeof request.body === "string" || request.body instanceof Uint8Array
+				? request.body
+				: null;
+		return new Request(new URL(request.path, request.origin), {
+			method: request.method,
+			headers: toHeaders(request.headers),
+			// Streamed bodies are consumed by undici and can't be read here
+			body: request.method === "GET" || request.method === "HEAD" ? null : body,
+		});
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Observes requests made with `undici` directly, e.g. `undici.request` or
+ * `Pool`, including the copy bundled with Node.js. Unlike the other
+ * interceptors it can't mock responses, and their bodies aren't captured as
+ * undici doesn't publish them.
+ */
+export class UndiciInterceptor extends Interceptor<InterceptedRequestEventMap> {
+	static symbol = Symbol("undici-interceptor");
+
+	constructor() {
+		super(UndiciInterceptor.symbol);
+	}
+
+	protected setup() {
+		const requests = new WeakMap<
+			UndiciRequest,
+			{ request: Request; requestId: string }
+		>();
+
+		const onCreate = (message: unknown) => {
+			// `fetch` uses undici too but its requests are intercepted already
+			if (requestScope.getStore()?.client === "fetch") return;
+
+			const { request: undiciRequest } = message as { request: UndiciRequest };
+			// Connections after an upgrade aren't HTTP requests anymore
+			if (undiciRequest.upgrade) return;
+			const request = toFetchRequest(undiciRequest);
+			if (!request) return;
+
+			const requestId = createRequestId();
+			const scope: RequestScope = { client: "undici" };
+			requests.set(undiciRequest, { request, requestId });
+			channelRequestScopes.set(undiciRequest, scope);
+
+			requestScope.run(scope, () =>
+				this.emitter.emit("request", {
+					request,
+					requestId,
+					controller: createObserverController(),
+				}),
+			);
+		};
+
+		const onHeaders = (message: unknown) => {
+			const { request: undiciRequest, response } = message as {
+				request: UndiciRequest;
+				response: UndiciResponse;
+			};
+			const entry = requests.get(undiciRequest);
+			if (!entry) return;
+			requests.delete(undiciRequest);
+
+			this.emitter.emit("response", {
+				response: new FetchResponse(null, {
+					status: response.statusCode,
+					statusText: response.statusText,
+					headers: FetchResponse.parseRawHeaders(
+						response.headers.map((value) => value.toString("latin1")),
+					),
+					url: entry.request.url,
+				}),
+				isMockedResponse: false,
+				request: entry.request,
+				requestId: entry.requestId,
+			});
+		};
+
+		const channels = {
+			"undici:request:create": onCreate,
+			"undici:request:headers": onHeaders,
+		};
+		for (const [name, onMessage] of Object.entries(channels)) {
+			const subscriber = (message: unknown) => {
+				try {
+					onMessage(message);
+				} catch {
+					// Errors thrown by subscribers would crash the app
+				}
+			};
+			diagnosticsChannel.subscribe(name, subscriber);
+			this.subscriptions.push(() => {
+				diagnosticsChannel.unsubscribe(name, subscriber);
+			});
+		}
+	}
+}
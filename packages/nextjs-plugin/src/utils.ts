@@ -1,4 +1,52 @@
+import type {
+	HttpRequestEventMap,
+	RequestController,
+} from "@mswjs/interceptors";
 import type { HrTime } from "@opentelemetry/api";
 
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isOptionalString = (value: unknown) =>
+	value === undefined || typeof value === "string";
+
+// Longer timeouts overflow and fire right away
+export const MAX_DELAY_MS = 2 ** 31 - 1;
+
+export const isDelay = (value: unknown): value is number =>
+	typeof value === "number" && value >= 0 && value <= MAX_DELAY_MS;
+
+// Fractions are kept to match high resolution timestamps of requests
 export const hrTimeToMilliseconds = (value: HrTime): number =>
-	Math.round(value[0] * 1000 + value[1] / 1e6);
+	value[0] * 1000 + value[1] / 1e6;
+
+/**
+ * Part of the request controller the plugin answers requests with, custom
+ * interceptors only provide this much
+ */
+export type InterceptedRequestController = Pick<
+	RequestController,
+	"respondWith" | "errorWith"
+>;
+
+export type InterceptedRequestEventMap = Omit<
+	HttpRequestEventMap,
+	"request"
+> & {
+	request: [
+		args: {
+			request: Request;
+			requestId: string;
+			controller: InterceptedRequestController;
+		},
+	];
+};
+
+/**
+ * Controller for requests which are only observed and can't be mocked, the
+ * class isn't exported at runtime by the interceptors library
+ */
+export const createObserverController = (): InterceptedRequestController => ({
+	respondWith: () => {},
+	errorWith: () => {},
+});
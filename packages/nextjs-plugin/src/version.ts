@@ -0,0 +1,24 @@
+import { createRequire } from "node:module";
+import { join } from "node:path";
+
+// Inlined from package.json at build time, see tsup.config.ts
+export const PLUGIN_VERSION =
+	process.env.NEXT_NETWORK_PLUGIN_VERSION ?? "0.0.0-dev";
+
+/**
+ * Version of the WebSocket protocol, must be bumped on breaking changes to
+ * the events so the browser extension can tell it doesn't support them
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * Resolves Next.js the same way the app does, from its working directory
+ */
+export const getNextVersion = (): string | undefined => {
+	try {
+		const require = createRequire(join(process.cwd(), "package.json"));
+		return (require("next/package.json") as { version: string }).version;
+	} catch {
+		return undefined;
+	}
+};
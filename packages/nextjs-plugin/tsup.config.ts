@@ -1,4 +1,5 @@
 import { defineConfig } from "tsup";
+import { version } from "./package.json";
 
 export default defineConfig({
 	entry: ["src/index.ts"],
@@ -11,4 +12,7 @@ export default defineConfig({
 	target: "node18",
 	outDir: "dist",
 	external: ["next"],
+	env: {
+		NEXT_NETWORK_PLUGIN_VERSION: version,
+	},
 });
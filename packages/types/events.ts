@@ -1,25 +1,240 @@
-import type { RequestSpan, ResponseSpan, Span } from "./spans";
+import type {
+	BodyEncoding,
+	ExceptionRecord,
+	LogRecord,
+	RequestError,
+	RequestSpan,
+	ResponseChunk,
+	ResponseSpan,
+	ServerSpan,
+	WebSocketClose,
+	WebSocketMessage,
+	WebSocketOpen,
+} from "./spans";
 
 export type Event<T = string, D = undefined> = {
 	type: T;
 	data: D;
 };
 
+// Optional features of the plugin server, clients may adapt to their absence
+export type Capability =
+	| "resume"
+	| "response-chunks"
+	| "rest-api"
+	| "pause-capture"
+	| "subscribe"
+	| "batch"
+	| "request-error"
+	| "timing-phases"
+	| "payload-size"
+	| "websocket"
+	| "db-queries"
+	| "logs"
+	| "exceptions"
+	| "mocks"
+	| "faults"
+	| "replay";
+
+export interface ServerInfo {
+	// Bumped by the plugin on breaking changes to the events
+	protocolVersion: number;
+	pluginVersion: string;
+	// Missing when Next.js couldn't be resolved from the app directory
+	nextVersion?: string;
+	nodeVersion: string;
+	pid: number;
+	capabilities: Capability[];
+}
+
+// First event sent to every client, before the catch-up
+export type HelloEvent = Event<"hello", ServerInfo>;
+
 export type RequestEvent = Event<"request", RequestSpan>;
 export type ResponseEvent = Event<"response", ResponseSpan>;
-export type SpanStart = Event<"span-start", Span>;
-export type SpanEnd = Event<"span-end", Span>;
+// Sent instead of a response when the request failed or was aborted
+export type RequestErrorEvent = Event<"request-error", RequestError>;
+export type ResponseChunkEvent = Event<"response-chunk", ResponseChunk>;
+// WebSocket connections start with a `request` event for the handshake
+export type WebSocketOpenEvent = Event<"websocket-open", WebSocketOpen>;
+export type WebSocketMessageEvent = Event<
+	"websocket-message",
+	WebSocketMessage
+>;
+export type WebSocketCloseEvent = Event<"websocket-close", WebSocketClose>;
+export type SpanStart = Event<"span-start", ServerSpan>;
+export type SpanEnd = Event<"span-end", ServerSpan>;
+export type LogEvent = Event<"log", LogRecord>;
+export type ExceptionEvent = Event<"exception", ExceptionRecord>;
+
+// Sent on connect and whenever capture is paused or resumed by any client
+export type CaptureStateEvent = Event<"capture-state", { paused: boolean }>;
+
+// Sent on connect and whenever the mock rules are changed by any client
+export type MockRulesEvent = Event<"mock-rules", MockRule[]>;
+// Sent on connect and whenever the fault rules are changed by any client
+export type FaultRulesEvent = Event<"fault-rules", FaultRule[]>;
 
-export type BroadcastedServerEvents = Exclude<ServerEvent, CatchUpEvent>;
-export type CatchUpEvent = Event<"catch-up", BroadcastedServerEvents[]>;
+// Sent as part of catch-up when older events were evicted from the history
+export type EventsDroppedEvent = Event<"events-dropped", { count: number }>;
+
+/**
+ * Broadcasted events carry their position in the server history, it grows by
+ * one with every event and lets reconnecting clients resume where they stopped
+ */
+export type Sequenced<E> = E & { seq: number };
+
+export type BroadcastedServerEvents = Exclude<
+	ServerEvent,
+	| HelloEvent
+	| CaptureStateEvent
+	| MockRulesEvent
+	| FaultRulesEvent
+	| ReplayErrorEvent
+	| CatchUpEvent
+	| EventsDroppedEvent
+	| BatchEvent
+>;
+// Live events collected over a short interval and sent in a single frame
+export type BatchEvent = Event<"batch", BroadcastedServerEvents[]>;
+export type CatchUpEvent = Event<
+	"catch-up",
+	(BroadcastedServerEvents | EventsDroppedEvent)[]
+> & {
+	// Identifies the server run, sequence numbers of different runs aren't comparable
+	sessionId?: string;
+	// Sequence number of the latest event at the time of the catch-up
+	seq?: number;
+	// Only events after the last one seen by the client are included
+	resumed?: boolean;
+};
 
 export type ServerEvent =
+	| HelloEvent
 	| RequestEvent
 	| ResponseEvent
+	| RequestErrorEvent
+	| ResponseChunkEvent
+	| WebSocketOpenEvent
+	| WebSocketMessageEvent
+	| WebSocketCloseEvent
 	| SpanStart
 	| SpanEnd
+	| LogEvent
+	| ExceptionEvent
+	| CaptureStateEvent
+	| MockRulesEvent
+	| FaultRulesEvent
+	| ReplayErrorEvent
+	| EventsDroppedEvent
+	| BatchEvent
 	| CatchUpEvent;
 
 type ClearAllEvent = Event<"clear-all">;
+// Sent right after connecting, empty data requests the whole history
+export type ResumeEvent = Event<
+	"resume",
+	{ sessionId?: string; lastSeq?: number }
+>;
+
+/**
+ * All set fields have to match. Patterns support `*` wildcards, URL patterns
+ * starting with `/` are matched against the path only.
+ */
+export interface TrafficPattern {
+	url?: string;
+	host?: string;
+	method?: string | string[];
+}
+
+export interface TrafficFilter {
+	// When set, only matching traffic is kept
+	include?: TrafficPattern[];
+	exclude?: TrafficPattern[];
+}
+
+// Limits which events the server sends to this client, replaces previous one
+export type SubscribeEvent = Event<"subscribe", TrafficFilter>;
+
+/**
+ * Outgoing request matching the pattern is answered by the plugin instead of
+ * the network. Rules are tried in order, the first enabled match wins.
+ */
+export interface MockRule extends TrafficPattern {
+	id: string;
+	// Disabled rules are kept but not applied
+	enabled: boolean;
+	// @default 200
+	status?: number;
+	headers?: Record<string, string>;
+	body?: string;
+	// Delay before responding, in milliseconds
+	delayMs?: number;
+}
+
+// Replaces mock rules of the plugin for all clients
+export type SetMockRulesEvent = Event<"set-mock-rules", MockRule[]>;
+
+/**
+ * Makes matching outgoing requests slow or fail on purpose, effects of a rule
+ * are combined. Rules are tried in order, the first enabled match wins.
+ */
+export interface FaultRule extends TrafficPattern {
+	id: string;
+	// Disabled rules are kept but not applied
+	enabled: boolean;
+	// Shown in place of the effects, e.g. name of the preset
+	label?: string;
+	// Added before the request is sent, in milliseconds
+	delayMs?: number;
+	// Answers with this 5xx status instead of sending the request
+	errorStatus?: number;
+	// Fails the request as if the connection was reset
+	drop?: boolean;
+	// Limits how fast the response body is received, in bytes per second
+	bytesPerSecond?: number;
+}
+
+// Replaces fault rules of the plugin for all clients
+export type SetFaultRulesEvent = Event<"set-fault-rules", FaultRule[]>;
+
+/**
+ * Captured request to be sent again by the plugin, optionally edited. Masked
+ * header values left as they are get their original value back as long as
+ * the URL keeps the origin of the original request.
+ */
+export interface ReplayRequest {
+	// ID of the captured request
+	id: string;
+	method: string;
+	url: string;
+	headers: Record<string, string>;
+	body?: string;
+	bodyEncoding?: BodyEncoding;
+}
+
+// The replayed request is captured as a new one linked to the original
+export type ReplayRequestEvent = Event<"replay-request", ReplayRequest>;
+// Sent to the client which asked for a replay that couldn't be sent
+export type ReplayErrorEvent = Event<
+	"replay-error",
+	{
+		// ID of the captured request, missing when the payload was malformed
+		id?: string;
+		message: string;
+	}
+>;
+
+// While paused the plugin neither keeps nor sends new events
+type PauseCaptureEvent = Event<"pause-capture">;
+type ResumeCaptureEvent = Event<"resume-capture">;
 
-export type ClientEvent = ClearAllEvent;
+export type ClientEvent =
+	| ClearAllEvent
+	| ResumeEvent
+	| PauseCaptureEvent
+	| ResumeCaptureEvent
+	| SubscribeEvent
+	| SetMockRulesEvent
+	| SetFaultRulesEvent
+	| ReplayRequestEvent;
@@ -1,3 +1,35 @@
+export type SpanAttributeValue =
+	| string
+	| number
+	| boolean
+	| Array<string | number | boolean | null | undefined>;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export type SpanKind =
+	| "internal"
+	| "server"
+	| "client"
+	| "producer"
+	| "consumer";
+
+export interface SpanStatus {
+	code: "unset" | "ok" | "error";
+	message?: string;
+}
+
+export interface SpanEvent {
+	name: string;
+	time: number;
+	attributes?: SpanAttributes;
+}
+
+export interface SpanLink {
+	spanId: string;
+	traceId: string;
+	attributes?: SpanAttributes;
+}
+
 export interface Span {
 	id: string;
 	start: number;
@@ -12,16 +44,187 @@ export interface Span {
 		| undefined;
 }
 
+// OpenTelemetry span created by instrumentations on the server
+export interface ServerSpan extends Span {
+	kind?: SpanKind;
+	attributes?: SpanAttributes;
+	status?: SpanStatus;
+	events?: SpanEvent[];
+	links?: SpanLink[];
+	// Set for spans of database clients, e.g. `pg` or `ioredis`
+	db?: DbQuery;
+}
+
+// Read from database semantic convention attributes, old and new ones
+export interface DbQuery {
+	// e.g. `postgresql`, `mysql`, `redis`
+	system: string;
+	statement?: string;
+	// e.g. `SELECT`, `findAndModify`
+	operation?: string;
+	// Database name, or table and collection name when known
+	namespace?: string;
+	// Rows returned or affected, known for `pg`, `mysql2` and `mongodb` only
+	rows?: number;
+}
+
+// Names of fields which values were masked by the plugin before sending
+export interface RedactedFields {
+	headers: string[];
+	query: string[];
+	// Paths in JSON body, e.g. `$.password`
+	body: string[];
+}
+
+// Sizes in bytes, body sizes are missing when they can't be told
+export interface PayloadSize {
+	// Headers serialized as in HTTP/1.1
+	headers: number;
+	// Body as sent over the network, e.g. gzipped
+	encodedBody?: number;
+	// Body once its content encoding is removed
+	decodedBody?: number;
+}
+
+// Binary bodies are sent base64 encoded
+export type BodyEncoding = "utf-8" | "base64";
+
 export interface RequestSpan extends Span {
 	method: string;
 	url: string;
 	headers: Record<string, string>;
 	body: string | undefined;
+	bodyEncoding?: BodyEncoding;
+	// Body exceeded the size limit of the plugin and only the start was captured
+	bodyTruncated?: boolean;
+	// Length of the whole body in bytes
+	contentLength?: number;
+	size?: PayloadSize;
+	redacted?: RedactedFields;
+	// Answered by this mock rule of the plugin instead of the network
+	mockRuleId?: string;
+	// Slowed down or failed on purpose by this fault rule of the plugin
+	faultRuleId?: string;
+	// Sent again by the plugin on request of a client, ID of the original request
+	replayOf?: string;
 }
 
 export interface ResponseSpan extends Span {
 	status: number;
 	statusText: string;
 	headers: Record<string, string>;
+	// Body is streamed, it's sent in chunks and the response is sent again once complete
+	streaming?: boolean;
 	body: string | undefined;
+	bodyEncoding?: BodyEncoding;
+	// Body exceeded the size limit of the plugin and only the start was captured
+	bodyTruncated?: boolean;
+	// Length of the whole body in bytes
+	contentLength?: number;
+	// Missing for streaming responses until the body is read
+	size?: PayloadSize;
+	redacted?: RedactedFields;
+	// Missing for plugins without the `timing-phases` capability
+	timings?: TimingPhases;
+}
+
+/**
+ * Durations of request phases in milliseconds, connection phases are missing
+ * when an existing connection was reused
+ */
+export interface TimingPhases {
+	dns?: number;
+	tcp?: number;
+	tls?: number;
+	// Time to first byte, waiting for the server once connected
+	ttfb?: number;
+	download?: number;
+}
+
+export interface ResponseChunk {
+	// ID of the request the chunk belongs to
+	id: string;
+	index: number;
+	timestamp: number;
+	data: string;
+	encoding: BodyEncoding;
+	// Size of the chunk in bytes
+	size: number;
+}
+
+export interface RequestError {
+	// Same as the id of the failed request
+	id: string;
+	// System error code like `ECONNREFUSED`, or `AbortError`/`TimeoutError`
+	code?: string;
+	message: string;
+	aborted: boolean;
+	abortReason?: string;
+	end: number;
+}
+
+// Sent once the handshake of a WebSocket connection succeeded
+export interface WebSocketOpen {
+	// ID of the handshake request
+	id: string;
+	// Subprotocol selected by the server, if any
+	protocol?: string;
+	timestamp: number;
+}
+
+export interface WebSocketMessage {
+	// ID of the handshake request
+	id: string;
+	index: number;
+	// Outgoing messages are sent by the app, incoming ones by the server
+	direction: "outgoing" | "incoming";
+	timestamp: number;
+	data: string;
+	encoding: BodyEncoding;
+	// Size of the whole message in bytes
+	size: number;
+	// Message exceeded the size limit of the plugin and only the start was captured
+	truncated?: boolean;
+	redacted?: RedactedFields;
+}
+
+export interface WebSocketClose {
+	// ID of the handshake request
+	id: string;
+	code: number;
+	reason: string;
+	wasClean: boolean;
+	end: number;
+}
+
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal";
+
+// Log record written while a server span was active
+export interface LogRecord {
+	id: string;
+	spanId: string;
+	traceId: string;
+	timestamp: number;
+	level: LogLevel;
+	message: string;
+	// `console`, or the logging library, e.g. `winston` or `pino`
+	source: string;
+	// Message exceeded the size limit of the plugin and only the start was captured
+	truncated?: boolean;
+	attributes?: SpanAttributes;
+}
+
+// Exception recorded on a span or thrown outside of any handler
+export interface ExceptionRecord {
+	id: string;
+	// Span the exception happened in, missing when it can't be told
+	spanId?: string;
+	traceId?: string;
+	timestamp: number;
+	// e.g. `TypeError`
+	type?: string;
+	message: string;
+	// File paths are source-mapped and relative to the app directory when possible
+	stack?: string;
+	source: "span" | "uncaught-exception" | "unhandled-rejection";
 }
@@ -1,6 +1,19 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import type {
+	FaultRule,
+	MockRule,
+	ReplayErrorEvent,
+	ReplayRequest,
+	ServerInfo,
+	TrafficFilter,
+} from "@/packages/types";
+import { getCompatibilityIssue } from "~/utils/compatibility";
+import { useServerPort } from "~/utils/server-port";
 import { SpanFilter, useSpanFilter } from "~/utils/span-filter";
 import {
+	collectExceptions,
+	collectLogs,
+	filterDbQueries,
 	filterInBetweenSpans,
 	filterServerSpans,
 	filterSpansByUrl,
@@ -8,11 +21,17 @@ import {
 	mapServerEventToSpanTree,
 	type SpanTree,
 } from "~/utils/spans";
+import { useSubscriptionFilter } from "~/utils/subscription-filter";
 import { ConnectionStatus, useWS } from "~/utils/ws";
 import { CollapsibleSection } from "./components/collapsible-section";
 import { ConnectionErrorBanner } from "./components/connection-error-banner";
 import { ConnectionIndicator } from "./components/connection-indicator";
+import { FaultRulesEditor } from "./components/fault-rules-editor";
+import { HistoryTruncatedBanner } from "./components/history-truncated-banner";
+import { IncompatibleVersionBanner } from "./components/incompatible-version-banner";
+import { MockRulesEditor } from "./components/mock-rules-editor";
 import SidePanel from "./components/panel";
+import { SubscriptionFilterForm } from "./components/subscription-filter-form";
 import HttpRequestsTable, {
 	type HttpRequestData,
 	transformSpanTreeToTableData,
@@ -21,7 +40,7 @@ import WaterfallChart, {
 	spanNodesToTimingData,
 } from "./components/waterfall-chart";
 
-const WS_URL = "ws://localhost:3300/";
+type View = "network" | "mocks" | "faults";
 
 export default function App() {
 	const [spans, setSpans] = useState<SpanTree>({});
@@ -30,22 +49,86 @@ export default function App() {
 	);
 	const [isPanelOpen, setIsPanelOpen] = useState(false);
 	const [catchUpReceived, setCatchUpReceived] = useState(false);
+	const [droppedEventsCount, setDroppedEventsCount] = useState(0);
 	const [spanFilter, setSpanFilter] = useSpanFilter();
+	const [serverPort, setServerPort] = useServerPort();
+	const [subscriptionFilter, setSubscriptionFilter] = useSubscriptionFilter();
+	// `undefined` until known, `null` for plugins without the handshake
+	const [serverInfo, setServerInfo] = useState<ServerInfo | null>();
+	const [capturePaused, setCapturePaused] = useState(false);
+	const [mockRules, setMockRules] = useState<MockRule[]>([]);
+	const [faultRules, setFaultRules] = useState<FaultRule[]>([]);
+	const [replayError, setReplayError] = useState<ReplayErrorEvent["data"]>();
+	const [view, setView] = useState<View>("network");
 	const {
 		send,
 		status: wsStatus,
 		reconnectAttempt,
-	} = useWS(WS_URL, (event) => {
-		if (event.type === "catch-up") {
-			setCatchUpReceived(true);
-		}
+	} = useWS(
+		`ws://localhost:${serverPort}/`,
+		(event) => {
+			// Resumed catch-up only has missed events, otherwise it's the whole history
+			const isFullCatchUp = event.type === "catch-up" && !event.resumed;
 
-		setSpans((prev) => {
-			const newSpans = mapServerEventToSpanTree(event, prev);
+			if (event.type === "hello") {
+				setServerInfo(event.data);
+				return;
+			}
 
-			return { ...newSpans };
-		});
-	});
+			if (event.type === "capture-state") {
+				setCapturePaused(event.data.paused);
+				return;
+			}
+
+			if (event.type === "mock-rules") {
+				setMockRules(event.data);
+				return;
+			}
+
+			if (event.type === "fault-rules") {
+				setFaultRules(event.data);
+				return;
+			}
+
+			if (event.type === "replay-error") {
+				setReplayError(event.data);
+				return;
+			}
+
+			if (event.type === "catch-up") {
+				setCatchUpReceived(true);
+				// The handshake always precedes the catch-up
+				setServerInfo((prev) => prev ?? null);
+				const droppedEvent = event.data.find(
+					(entry) => entry.type === "events-dropped",
+				);
+				setDroppedEventsCount((prev) =>
+					event.resumed
+						? prev + (droppedEvent?.data.count ?? 0)
+						: (droppedEvent?.data.count ?? 0),
+				);
+			}
+
+			setSpans((prev) => {
+				const newSpans = mapServerEventToSpanTree(
+					event,
+					isFullCatchUp ? {} : prev,
+				);
+
+				return { ...newSpans };
+			});
+		},
+		[{ type: "subscribe", data: subscriptionFilter }],
+	);
+
+	// A different port may be served by a different plugin version
+	// biome-ignore lint/correctness/useExhaustiveDependencies: reset on port change
+	useEffect(() => {
+		setServerInfo(undefined);
+	}, [serverPort]);
+
+	const compatibilityIssue =
+		serverInfo === undefined ? undefined : getCompatibilityIssue(serverInfo);
 
 	const handleRowClick = (request: HttpRequestData) => {
 		setSelectedRequestId(request.id);
@@ -68,10 +151,52 @@ export default function App() {
 			data: undefined,
 		});
 		setSpans({});
+		setDroppedEventsCount(0);
 		setSelectedRequestId(null);
 		setIsPanelOpen(false);
 	};
 
+	const handleSubscriptionFilterChange = (filter: TrafficFilter) => {
+		setSubscriptionFilter(filter);
+		// Server replies with a catch-up matching the new filter
+		if (wsStatus === ConnectionStatus.Connected) {
+			send({ type: "subscribe", data: filter });
+		}
+	};
+
+	const handleToggleCapture = () => {
+		send({
+			type: capturePaused ? "resume-capture" : "pause-capture",
+			data: undefined,
+		});
+	};
+
+	// Plugin replies with the new rules to all clients
+	const handleMockRulesChange = (rules: MockRule[]) => {
+		send({ type: "set-mock-rules", data: rules });
+	};
+	const handleFaultRulesChange = (rules: FaultRule[]) => {
+		send({ type: "set-fault-rules", data: rules });
+	};
+
+	// Plugin captures the replay as a new request
+	const handleReplay = (request: ReplayRequest) => {
+		setReplayError(undefined);
+		send({ type: "replay-request", data: request });
+	};
+	const canReplay =
+		wsStatus === ConnectionStatus.Connected &&
+		Boolean(serverInfo?.capabilities.includes("replay"));
+
+	const handleShowRequest = (requestId: string) => {
+		setSelectedRequestId(requestId);
+	};
+
+	const enabledRulesCounts: Partial<Record<View, number>> = {
+		mocks: mockRules.filter((rule) => rule.enabled).length,
+		faults: faultRules.filter((rule) => rule.enabled).length,
+	};
+
 	const [urlFilter, setUrlFilter] = useState("");
 
 	const filteredSpans = useMemo(() => {
@@ -87,6 +212,9 @@ export default function App() {
 			case SpanFilter.REQUESTS_ONLY:
 				resultSpans = filterServerSpans(spans);
 				break;
+			case SpanFilter.DB_QUERIES:
+				resultSpans = filterDbQueries(spans);
+				break;
 		}
 
 		// Then apply URL filter if provided
@@ -106,12 +234,32 @@ export default function App() {
 		[filteredSpans],
 	);
 
+	// Log lane shows logs of all spans, also the ones hidden by the view
+	const logs = useMemo(
+		() => Object.values(spans).flatMap((node) => node.logs ?? []),
+		[spans],
+	);
+
 	const selectedSpanNode = selectedRequestId
 		? spans[selectedRequestId]
 		: undefined;
 	const serverSpanData = selectedSpanNode?.isServerSpan
 		? selectedSpanNode.serverSpan
 		: undefined;
+	const selectedLogs = useMemo(
+		() =>
+			selectedSpanNode?.isServerSpan
+				? collectLogs(selectedSpanNode)
+				: undefined,
+		[selectedSpanNode],
+	);
+	const selectedExceptions = useMemo(
+		() =>
+			selectedSpanNode?.isServerSpan
+				? collectExceptions(selectedSpanNode)
+				: undefined,
+		[selectedSpanNode],
+	);
 
 	return (
 		<div className="flex flex-col h-full overflow-hidden bg-container-primary text-primary">
@@ -119,7 +267,19 @@ export default function App() {
 				(reconnectAttempt > 5 &&
 					(wsStatus === ConnectionStatus.Connecting ||
 						wsStatus === ConnectionStatus.Disconnected))) && (
-				<ConnectionErrorBanner />
+				<ConnectionErrorBanner port={serverPort} onPortChange={setServerPort} />
+			)}
+			{compatibilityIssue && serverInfo !== undefined && (
+				<IncompatibleVersionBanner
+					issue={compatibilityIssue}
+					serverInfo={serverInfo}
+				/>
+			)}
+			{droppedEventsCount > 0 && (
+				<HistoryTruncatedBanner
+					count={droppedEventsCount}
+					onDismiss={() => setDroppedEventsCount(0)}
+				/>
 			)}
 			<div className="flex items-center justify-between p-3">
 				<div className="flex gap-3">
@@ -131,6 +291,22 @@ export default function App() {
 					>
 						Clear All
 					</button>
+					<button
+						type="button"
+						onClick={handleToggleCapture}
+						disabled={wsStatus !== ConnectionStatus.Connected}
+						className="flex items-center gap-2 px-4 py-1 text-xs font-medium border border-border-primary rounded hover:bg-container-primary-hover bg-container-primary disabled:opacity-50 disabled:cursor-not-allowed"
+						title={
+							capturePaused
+								? "Resume capturing requests and spans"
+								: "Pause capturing requests and spans"
+						}
+					>
+						<span
+							className={`w-2 h-2 rounded-full ${capturePaused ? "bg-neutral" : "bg-error animate-pulse"}`}
+						/>
+						{capturePaused ? "Record" : "Pause"}
+					</button>
 					<label className="flex gap-2 items-center">
 						View:
 						<select
@@ -152,39 +328,107 @@ export default function App() {
 
 				<ConnectionIndicator status={wsStatus} />
 			</div>
-			<div className="px-3 pb-2">
-				<input
-					type="text"
-					placeholder="Filter by URL..."
-					value={urlFilter}
-					onChange={(e) => setUrlFilter(e.target.value)}
-					className="w-full px-3 py-2 border border-border-primary rounded bg-container-primary text-primary focus:outline-none focus:ring-1 focus:ring-info"
-				/>
+			{capturePaused && (
+				<div className="mx-3 mb-2 px-3 py-2 text-sm bg-warning-bg border border-warning-border rounded">
+					Recording paused, new requests and spans are not captured.
+				</div>
+			)}
+			<div
+				className="flex px-3 mb-2 border-b border-border-primary"
+				role="tablist"
+			>
+				{(
+					[
+						["network", "Network"],
+						["mocks", "Mocks"],
+						["faults", "Faults"],
+					] as const
+				).map(([value, label]) => (
+					<button
+						key={value}
+						type="button"
+						role="tab"
+						aria-selected={view === value}
+						onClick={() => setView(value)}
+						className={`py-2 px-4 text-sm font-medium border-b-2 cursor-pointer ${
+							view === value
+								? "text-primary border-primary"
+								: "text-text-tertiary border-transparent"
+						}`}
+					>
+						{label}
+						{Boolean(enabledRulesCounts[value]) && (
+							<span className="ml-1 text-xs text-text-tertiary">
+								({enabledRulesCounts[value]})
+							</span>
+						)}
+					</button>
+				))}
 			</div>
-			<CollapsibleSection title="Timeline">
-				<WaterfallChart
-					selectedRequestId={
-						selectedSpanNode?.request?.id ?? selectedSpanNode?.spanId
-					}
-					data={chartData}
-					onSpanClick={handleChartClick}
+			{view === "mocks" ? (
+				<MockRulesEditor
+					rules={mockRules}
+					onChange={handleMockRulesChange}
+					disabled={wsStatus !== ConnectionStatus.Connected}
 				/>
-			</CollapsibleSection>
-			<div className="relative flex-1 overflow-hidden">
-				<HttpRequestsTable
-					data={requestData}
-					onRowClick={handleRowClick}
-					loading={!catchUpReceived && requestData.length === 0}
+			) : view === "faults" ? (
+				<FaultRulesEditor
+					rules={faultRules}
+					onChange={handleFaultRulesChange}
+					disabled={wsStatus !== ConnectionStatus.Connected}
 				/>
+			) : (
+				<>
+					<div className="px-3 pb-2">
+						<input
+							type="text"
+							placeholder="Filter by URL..."
+							value={urlFilter}
+							onChange={(e) => setUrlFilter(e.target.value)}
+							className="w-full px-3 py-2 border border-border-primary rounded bg-container-primary text-primary focus:outline-none focus:ring-1 focus:ring-info"
+						/>
+					</div>
+					<div className="px-3 pb-2">
+						<SubscriptionFilterForm
+							filter={subscriptionFilter}
+							onChange={handleSubscriptionFilterChange}
+						/>
+					</div>
+					<CollapsibleSection title="Timeline">
+						<WaterfallChart
+							selectedRequestId={
+								selectedSpanNode?.request?.id ?? selectedSpanNode?.spanId
+							}
+							data={chartData}
+							logs={logs}
+							onSpanClick={handleChartClick}
+						/>
+					</CollapsibleSection>
+					<div className="relative flex-1 overflow-hidden">
+						<HttpRequestsTable
+							data={requestData}
+							onRowClick={handleRowClick}
+							loading={!catchUpReceived && requestData.length === 0}
+						/>
 
-				<SidePanel
-					requestData={selectedSpanNode?.request}
-					responseData={selectedSpanNode?.response}
-					serverSpanData={serverSpanData}
-					isOpen={isPanelOpen}
-					onClose={handlePanelClose}
-				/>
-			</div>
+						<SidePanel
+							requestData={selectedSpanNode?.request}
+							responseData={selectedSpanNode?.response}
+							chunks={selectedSpanNode?.chunks}
+							error={selectedSpanNode?.error}
+							webSocket={selectedSpanNode?.webSocket}
+							logs={selectedLogs}
+							exceptions={selectedExceptions}
+							serverSpanData={serverSpanData}
+							isOpen={isPanelOpen}
+							onClose={handlePanelClose}
+							onReplay={canReplay ? handleReplay : undefined}
+							replayError={replayError}
+							onShowRequest={handleShowRequest}
+						/>
+					</div>
+				</>
+			)}
 		</div>
 	);
 }
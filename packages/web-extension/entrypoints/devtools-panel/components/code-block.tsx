@@ -1,18 +1,24 @@
 import { useMemo } from "react";
+import type { BodyEncoding } from "@/packages/types";
+import { cn } from "~/utils/style";
 
 export interface CodeBlockProps {
 	content: string;
 	language?: string;
+	encoding?: BodyEncoding;
 	maxHeight?: string;
 }
 
 export function CodeBlock({
 	content,
 	language = "json",
+	encoding = "utf-8",
 	maxHeight = "300px",
 }: CodeBlockProps) {
 	const formattedContent = useMemo(() => {
 		if (!content) return "";
+		// Binary content is shown as is, there is nothing to format
+		if (encoding === "base64") return content;
 		try {
 			if (language === "json") {
 				return JSON.stringify(JSON.parse(content), null, 2);
@@ -21,11 +27,14 @@ export function CodeBlock({
 		} catch {
 			return content;
 		}
-	}, [content, language]);
+	}, [content, language, encoding]);
 
 	return (
 		<pre
-			className="text-sm font-mono overflow-auto text-primary"
+			className={cn(
+				"text-sm font-mono overflow-auto text-primary",
+				encoding === "base64" && "break-all whitespace-pre-wrap",
+			)}
 			style={{ maxHeight }}
 		>
 			{formattedContent}
@@ -1,21 +1,67 @@
-export const ConnectionErrorBanner = () => (
-	<div className="bg-error-bg border-b border-error-border text-error px-4 py-3 text-sm">
-		<p className="font-medium">Connection Error</p>
-		<p className="mt-1">
-			Cannot connect to Next Network instrumentation server. Please make sure
-			you have installed the Next.js plugin in your application.
-		</p>
-		<p className="mt-2">
-			Visit the{" "}
-			<a
-				href="https://github.com/G07cha/next-network-devtools?tab=readme-ov-file#getting-started"
-				target="_blank"
-				rel="noopener noreferrer"
-				className="text-info hover:text-info-light underline"
-			>
-				Getting Started Guide
-			</a>{" "}
-			for installation instructions.
-		</p>
-	</div>
-);
+import { useEffect, useState } from "react";
+
+export interface ConnectionErrorBannerProps {
+	port: number;
+	onPortChange: (port: number) => void;
+}
+
+export const ConnectionErrorBanner = ({
+	port,
+	onPortChange,
+}: ConnectionErrorBannerProps) => {
+	const [portInput, setPortInput] = useState(String(port));
+
+	useEffect(() => {
+		setPortInput(String(port));
+	}, [port]);
+
+	const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const value = Number(portInput);
+		if (Number.isInteger(value) && value > 0 && value <= 65535) {
+			onPortChange(value);
+		}
+	};
+
+	return (
+		<div className="bg-error-bg border-b border-error-border text-error px-4 py-3 text-sm">
+			<p className="font-medium">Connection Error</p>
+			<p className="mt-1">
+				Cannot connect to Next Network instrumentation server on port {port}.
+				Please make sure you have installed the Next.js plugin in your
+				application.
+			</p>
+			<form className="mt-2 flex items-center gap-2" onSubmit={handleSubmit}>
+				<label className="flex items-center gap-2">
+					Plugin server port:
+					<input
+						type="number"
+						min={1}
+						max={65535}
+						value={portInput}
+						onChange={(event) => setPortInput(event.currentTarget.value)}
+						className="w-24 px-2 py-1 border border-border-primary rounded bg-container-primary text-primary"
+					/>
+				</label>
+				<button
+					type="submit"
+					className="px-3 py-1 text-xs font-medium border border-border-primary rounded hover:bg-container-primary-hover bg-container-primary text-primary"
+				>
+					Apply
+				</button>
+			</form>
+			<p className="mt-2">
+				Visit the{" "}
+				<a
+					href="https://github.com/G07cha/next-network-devtools?tab=readme-ov-file#getting-started"
+					target="_blank"
+					rel="noopener noreferrer"
+					className="text-info hover:text-info-light underline"
+				>
+					Getting Started Guide
+				</a>{" "}
+				for installation instructions.
+			</p>
+		</div>
+	);
+};
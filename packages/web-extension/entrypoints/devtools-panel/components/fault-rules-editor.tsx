@@ -0,0 +1,327 @@
+import { useState } from "react";
+import type { FaultRule } from "@/packages/types";
+import {
+	createFaultRule,
+	describeFaultEffects,
+	FAULT_PRESETS,
+	type FaultEffects,
+} from "~/utils/faults";
+import { MAX_DELAY_MS, parseRuleNumber, upsertRule } from "~/utils/rules";
+import { cn } from "~/utils/style";
+import { Card } from "./card";
+
+export interface FaultRulesEditorProps {
+	rules: FaultRule[];
+	onChange: (rules: FaultRule[]) => void;
+	// Rules can't be changed while disconnected
+	disabled?: boolean;
+}
+
+const inputClassName =
+	"px-2 py-1 border border-border-primary rounded bg-container-primary text-primary";
+const buttonClassName =
+	"px-3 py-1 text-xs font-medium border border-border-primary rounded hover:bg-container-primary-hover bg-container-primary text-primary disabled:opacity-50 disabled:cursor-not-allowed";
+
+const ERROR_STATUSES = [500, 502, 503, 504];
+
+const formatMethod = (method: FaultRule["method"]) =>
+	[method ?? []].flat().join(", ");
+
+function FaultRuleForm({
+	rule,
+	onSave,
+	onCancel,
+}: {
+	rule: FaultRule;
+	onSave: (rule: FaultRule) => void;
+	onCancel: () => void;
+}) {
+	const [url, setUrl] = useState(rule.url ?? "");
+	const [method, setMethod] = useState(formatMethod(rule.method));
+	const [label, setLabel] = useState(rule.label);
+	const [delayMs, setDelayMs] = useState(String(rule.delayMs ?? ""));
+	const [errorStatus, setErrorStatus] = useState(
+		String(rule.errorStatus ?? ""),
+	);
+	const [drop, setDrop] = useState(Boolean(rule.drop));
+	// Bandwidth is edited in kB/s
+	const [kilobytesPerSecond, setKilobytesPerSecond] = useState(
+		rule.bytesPerSecond ? String(rule.bytesPerSecond / 1000) : "",
+	);
+	// Rules the plugin would reject aren't sent
+	const [issue, setIssue] = useState<string>();
+
+	const applyPreset = (name: string) => {
+		const preset = FAULT_PRESETS.find((preset) => preset.name === name);
+		if (!preset) return;
+
+		const { effects } = preset;
+		setLabel(preset.name);
+		setDelayMs(String(effects.delayMs ?? ""));
+		setErrorStatus(String(effects.errorStatus ?? ""));
+		setDrop(Boolean(effects.drop));
+		setKilobytesPerSecond(
+			effects.bytesPerSecond ? String(effects.bytesPerSecond / 1000) : "",
+		);
+	};
+
+	// Effects edited by hand don't match the preset anymore
+	const editEffect =
+		<T,>(setValue: (value: T) => void) =>
+		(value: T) => {
+			setLabel(undefined);
+			setValue(value);
+		};
+
+	const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const methods = method
+			.split(",")
+			.map((value) => value.trim().toUpperCase())
+			.filter(Boolean);
+		const delay = parseRuleNumber("Delay", delayMs, {
+			min: 0,
+			max: MAX_DELAY_MS,
+		});
+		// The plugin throttles to 1 B/s at least
+		const bandwidth = parseRuleNumber("Throttle", kilobytesPerSecond, {
+			min: 0.001,
+		});
+		const formIssue = delay.issue ?? bandwidth.issue;
+		if (formIssue) {
+			setIssue(formIssue);
+			return;
+		}
+
+		const effects: FaultEffects = {
+			delayMs: delay.value,
+			errorStatus: errorStatus ? Number(errorStatus) : undefined,
+			drop: drop || undefined,
+			bytesPerSecond:
+				bandwidth.value === undefined
+					? undefined
+					: Math.round(bandwidth.value * 1000),
+		};
+
+		onSave({
+			// Rules from the plugin options may match the host as well
+			...rule,
+			url: url.trim() || undefined,
+			method: methods.length > 0 ? methods : undefined,
+			label,
+			...effects,
+		});
+	};
+
+	return (
+		<Card className="p-3">
+			<form className="flex flex-col gap-2 text-sm" onSubmit={handleSubmit}>
+				<div className="flex gap-2">
+					<label className="flex flex-1 items-center gap-2">
+						URL:
+						<input
+							type="text"
+							required={!rule.host}
+							placeholder="https://api.example.com/*"
+							title="Pattern with * wildcards, patterns starting with / match the path only"
+							value={url}
+							onChange={(event) => setUrl(event.currentTarget.value)}
+							className={cn("flex-1", inputClassName)}
+						/>
+					</label>
+					<label className="flex items-center gap-2">
+						Method:
+						<input
+							type="text"
+							placeholder="Any"
+							value={method}
+							onChange={(event) => setMethod(event.currentTarget.value)}
+							className={cn("w-28", inputClassName)}
+						/>
+					</label>
+					<label className="flex items-center gap-2">
+						Preset:
+						<select
+							value={label ?? ""}
+							onChange={(event) => applyPreset(event.currentTarget.value)}
+							className={inputClassName}
+						>
+							<option value="">Custom</option>
+							{FAULT_PRESETS.map((preset) => (
+								<option key={preset.name} value={preset.name}>
+									{preset.name}
+								</option>
+							))}
+						</select>
+					</label>
+				</div>
+				<div className="flex gap-2">
+					<label className="flex items-center gap-2">
+						Delay (ms):
+						<input
+							type="number"
+							min={0}
+							value={delayMs}
+							onChange={(event) =>
+								editEffect(setDelayMs)(event.currentTarget.value)
+							}
+							className={cn("w-24", inputClassName)}
+						/>
+					</label>
+					<label className="flex items-center gap-2">
+						Respond with:
+						<select
+							value={errorStatus}
+							onChange={(event) =>
+								editEffect(setErrorStatus)(event.currentTarget.value)
+							}
+							className={inputClassName}
+						>
+							<option value="">Upstream response</option>
+							{ERROR_STATUSES.map((status) => (
+								<option key={status} value={status}>
+									{status}
+								</option>
+							))}
+						</select>
+					</label>
+					<label className="flex items-center gap-2">
+						<input
+							type="checkbox"
+							checked={drop}
+							onChange={(event) =>
+								editEffect(setDrop)(event.currentTarget.checked)
+							}
+						/>
+						Reset connection
+					</label>
+					<label className="flex items-center gap-2">
+						Throttle (kB/s):
+						<input
+							type="number"
+							min={0}
+							step="any"
+							placeholder="Off"
+							value={kilobytesPerSecond}
+							onChange={(event) =>
+								editEffect(setKilobytesPerSecond)(event.currentTarget.value)
+							}
+							className={cn("w-24", inputClassName)}
+						/>
+					</label>
+				</div>
+				{issue && <div className="text-xs text-error">{issue}</div>}
+				<div className="flex justify-end gap-2">
+					<button type="button" onClick={onCancel} className={buttonClassName}>
+						Cancel
+					</button>
+					<button type="submit" className={buttonClassName}>
+						Save
+					</button>
+				</div>
+			</form>
+		</Card>
+	);
+}
+
+/**
+ * Rules are kept by the plugin, changes are sent right away and apply to
+ * requests made afterwards
+ */
+export const FaultRulesEditor = ({
+	rules,
+	onChange,
+	disabled = false,
+}: FaultRulesEditorProps) => {
+	// Rule being edited, may not be part of the rules yet
+	const [editedRule, setEditedRule] = useState<FaultRule>();
+
+	const handleSave = (rule: FaultRule) => {
+		onChange(upsertRule(rules, rule));
+		setEditedRule(undefined);
+	};
+
+	return (
+		<div className="flex flex-col gap-2 p-3 overflow-auto">
+			<div className="flex items-center justify-between">
+				<span className="text-sm text-text-tertiary">
+					Matching outgoing server requests are slowed down or failed on
+					purpose, mocked requests aren't affected.
+				</span>
+				<button
+					type="button"
+					onClick={() => setEditedRule(createFaultRule())}
+					disabled={disabled || editedRule !== undefined}
+					className={buttonClassName}
+				>
+					Add rule
+				</button>
+			</div>
+			{rules.length === 0 && !editedRule && (
+				<div className="py-6 text-center text-sm text-tertiary">
+					No fault rules
+				</div>
+			)}
+			{rules.map((rule) =>
+				editedRule?.id === rule.id ? (
+					<FaultRuleForm
+						key={rule.id}
+						rule={editedRule}
+						onSave={handleSave}
+						onCancel={() => setEditedRule(undefined)}
+					/>
+				) : (
+					<Card
+						key={rule.id}
+						className={cn(
+							"flex items-center gap-3 p-2 text-sm",
+							!rule.enabled && "opacity-60",
+						)}
+					>
+						<input
+							type="checkbox"
+							checked={rule.enabled}
+							disabled={disabled}
+							title={rule.enabled ? "Disable rule" : "Enable rule"}
+							onChange={() =>
+								onChange(upsertRule(rules, { ...rule, enabled: !rule.enabled }))
+							}
+						/>
+						<span className="w-20 font-medium">
+							{formatMethod(rule.method) || "ANY"}
+						</span>
+						<span className="flex-1 truncate font-mono" title={rule.url}>
+							{rule.url || rule.host}
+						</span>
+						<span title={describeFaultEffects(rule)}>
+							{rule.label ?? describeFaultEffects(rule)}
+						</span>
+						<button
+							type="button"
+							onClick={() => setEditedRule(rule)}
+							disabled={disabled}
+							className={buttonClassName}
+						>
+							Edit
+						</button>
+						<button
+							type="button"
+							onClick={() => onChange(rules.filter(({ id }) => id !== rule.id))}
+							disabled={disabled}
+							className={buttonClassName}
+						>
+							Delete
+						</button>
+					</Card>
+				),
+			)}
+			{editedRule && !rules.some(({ id }) => id === editedRule.id) && (
+				<FaultRuleForm
+					rule={editedRule}
+					onSave={handleSave}
+					onCancel={() => setEditedRule(undefined)}
+				/>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,28 @@
+import { CloseIcon } from "./icons";
+
+export interface HistoryTruncatedBannerProps {
+	count: number;
+	onDismiss: () => void;
+}
+
+export const HistoryTruncatedBanner = ({
+	count,
+	onDismiss,
+}: HistoryTruncatedBannerProps) => (
+	<div className="flex items-start justify-between gap-3 bg-warning-bg border-b border-warning-border px-4 py-3 text-sm">
+		<p>
+			History is incomplete: {count} older{" "}
+			{count === 1 ? "event was" : "events were"} dropped by the plugin to stay
+			within its memory limits.
+		</p>
+		<button
+			type="button"
+			onClick={onDismiss}
+			className="text-text-tertiary hover:text-text-secondary cursor-pointer"
+			aria-label="Dismiss"
+			title="Dismiss"
+		>
+			<CloseIcon className="w-4 h-4" />
+		</button>
+	</div>
+);
@@ -0,0 +1,34 @@
+import { browser } from "wxt/browser";
+import type { ServerInfo } from "@/packages/types";
+import { CompatibilityIssue } from "~/utils/compatibility";
+
+export interface IncompatibleVersionBannerProps {
+	issue: CompatibilityIssue;
+	serverInfo: ServerInfo | null;
+}
+
+export const IncompatibleVersionBanner = ({
+	issue,
+	serverInfo,
+}: IncompatibleVersionBannerProps) => {
+	const extensionVersion = browser.runtime.getManifest().version;
+	const pluginVersion = serverInfo?.pluginVersion ?? "unknown";
+
+	return (
+		<div className="bg-error-bg border-b border-error-border text-error px-4 py-3 text-sm">
+			<p className="font-medium">Incompatible Versions</p>
+			<p className="mt-1">
+				{issue === CompatibilityIssue.PluginOutdated
+					? `The Next.js plugin (${pluginVersion}) is too old for this extension (${extensionVersion}). Please update next-network-devtools-plugin in your application.`
+					: `This extension (${extensionVersion}) is too old for the Next.js plugin (${pluginVersion}). Please update the extension.`}{" "}
+				Some requests may be missing or shown incorrectly until then.
+			</p>
+			{serverInfo && (
+				<p className="mt-2">
+					Next.js {serverInfo.nextVersion ?? "unknown"}, Node.js{" "}
+					{serverInfo.nodeVersion}, process {serverInfo.pid}
+				</p>
+			)}
+		</div>
+	);
+};
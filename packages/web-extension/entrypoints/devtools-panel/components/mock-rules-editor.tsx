@@ -0,0 +1,254 @@
+import { useState } from "react";
+import type { MockRule } from "@/packages/types";
+import { formatHeaders, getHeadersIssue, parseHeaders } from "~/utils/headers";
+import { createMockRule } from "~/utils/mocks";
+import { MAX_DELAY_MS, parseRuleNumber, upsertRule } from "~/utils/rules";
+import { cn } from "~/utils/style";
+import { Card } from "./card";
+
+export interface MockRulesEditorProps {
+	rules: MockRule[];
+	onChange: (rules: MockRule[]) => void;
+	// Rules can't be changed while disconnected
+	disabled?: boolean;
+}
+
+const inputClassName =
+	"px-2 py-1 border border-border-primary rounded bg-container-primary text-primary";
+const buttonClassName =
+	"px-3 py-1 text-xs font-medium border border-border-primary rounded hover:bg-container-primary-hover bg-container-primary text-primary disabled:opacity-50 disabled:cursor-not-allowed";
+
+const formatMethod = (method: MockRule["method"]) =>
+	[method ?? []].flat().join(", ");
+
+function MockRuleForm({
+	rule,
+	onSave,
+	onCancel,
+}: {
+	rule: MockRule;
+	onSave: (rule: MockRule) => void;
+	onCancel: () => void;
+}) {
+	const [url, setUrl] = useState(rule.url ?? "");
+	const [method, setMethod] = useState(formatMethod(rule.method));
+	const [status, setStatus] = useState(String(rule.status ?? 200));
+	const [delayMs, setDelayMs] = useState(String(rule.delayMs ?? 0));
+	const [headers, setHeaders] = useState(formatHeaders(rule.headers));
+	const [body, setBody] = useState(rule.body ?? "");
+	// Rules the plugin would reject aren't sent
+	const [issue, setIssue] = useState<string>();
+
+	const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const methods = method
+			.split(",")
+			.map((value) => value.trim().toUpperCase())
+			.filter(Boolean);
+		const parsedHeaders = parseHeaders(headers);
+		const delay = parseRuleNumber("Delay", delayMs, {
+			min: 0,
+			max: MAX_DELAY_MS,
+		});
+		const formIssue = delay.issue ?? getHeadersIssue(parsedHeaders);
+		if (formIssue) {
+			setIssue(formIssue);
+			return;
+		}
+
+		onSave({
+			// Rules from the plugin options may match the host as well
+			...rule,
+			url: url.trim() || undefined,
+			method: methods.length > 0 ? methods : undefined,
+			status: Number(status),
+			headers: parsedHeaders,
+			body: body || undefined,
+			delayMs: delay.value || undefined,
+		});
+	};
+
+	return (
+		<Card className="p-3">
+			<form className="flex flex-col gap-2 text-sm" onSubmit={handleSubmit}>
+				<div className="flex gap-2">
+					<label className="flex flex-1 items-center gap-2">
+						URL:
+						<input
+							type="text"
+							required={!rule.host}
+							placeholder="https://api.example.com/users/*"
+							title="Pattern with * wildcards, patterns starting with / match the path only"
+							value={url}
+							onChange={(event) => setUrl(event.currentTarget.value)}
+							className={cn("flex-1", inputClassName)}
+						/>
+					</label>
+					<label className="flex items-center gap-2">
+						Method:
+						<input
+							type="text"
+							placeholder="Any"
+							value={method}
+							onChange={(event) => setMethod(event.currentTarget.value)}
+							className={cn("w-28", inputClassName)}
+						/>
+					</label>
+					<label className="flex items-center gap-2">
+						Status:
+						<input
+							type="number"
+							required
+							min={200}
+							max={599}
+							value={status}
+							onChange={(event) => setStatus(event.currentTarget.value)}
+							className={cn("w-20", inputClassName)}
+						/>
+					</label>
+					<label className="flex items-center gap-2">
+						Delay (ms):
+						<input
+							type="number"
+							min={0}
+							value={delayMs}
+							onChange={(event) => setDelayMs(event.currentTarget.value)}
+							className={cn("w-24", inputClassName)}
+						/>
+					</label>
+				</div>
+				<label className="flex flex-col gap-1">
+					Headers:
+					<textarea
+						rows={3}
+						placeholder="Content-Type: application/json"
+						value={headers}
+						onChange={(event) => setHeaders(event.currentTarget.value)}
+						className={cn("font-mono", inputClassName)}
+					/>
+				</label>
+				<label className="flex flex-col gap-1">
+					Body:
+					<textarea
+						rows={6}
+						value={body}
+						onChange={(event) => setBody(event.currentTarget.value)}
+						className={cn("font-mono", inputClassName)}
+					/>
+				</label>
+				{issue && <div className="text-xs text-error">{issue}</div>}
+				<div className="flex justify-end gap-2">
+					<button type="button" onClick={onCancel} className={buttonClassName}>
+						Cancel
+					</button>
+					<button type="submit" className={buttonClassName}>
+						Save
+					</button>
+				</div>
+			</form>
+		</Card>
+	);
+}
+
+/**
+ * Rules are kept by the plugin, changes are sent right away and apply to
+ * requests made afterwards
+ */
+export const MockRulesEditor = ({
+	rules,
+	onChange,
+	disabled = false,
+}: MockRulesEditorProps) => {
+	// Rule being edited, may not be part of the rules yet
+	const [editedRule, setEditedRule] = useState<MockRule>();
+
+	const handleSave = (rule: MockRule) => {
+		onChange(upsertRule(rules, rule));
+		setEditedRule(undefined);
+	};
+
+	return (
+		<div className="flex flex-col gap-2 p-3 overflow-auto">
+			<div className="flex items-center justify-between">
+				<span className="text-sm text-text-tertiary">
+					Matching outgoing server requests are answered by the plugin, the
+					first enabled rule wins.
+				</span>
+				<button
+					type="button"
+					onClick={() => setEditedRule(createMockRule())}
+					disabled={disabled || editedRule !== undefined}
+					className={buttonClassName}
+				>
+					Add rule
+				</button>
+			</div>
+			{rules.length === 0 && !editedRule && (
+				<div className="py-6 text-center text-sm text-tertiary">
+					No mock rules
+				</div>
+			)}
+			{rules.map((rule) =>
+				editedRule?.id === rule.id ? (
+					<MockRuleForm
+						key={rule.id}
+						rule={editedRule}
+						onSave={handleSave}
+						onCancel={() => setEditedRule(undefined)}
+					/>
+				) : (
+					<Card
+						key={rule.id}
+						className={cn(
+							"flex items-center gap-3 p-2 text-sm",
+							!rule.enabled && "opacity-60",
+						)}
+					>
+						<input
+							type="checkbox"
+							checked={rule.enabled}
+							disabled={disabled}
+							title={rule.enabled ? "Disable rule" : "Enable rule"}
+							onChange={() =>
+								onChange(upsertRule(rules, { ...rule, enabled: !rule.enabled }))
+							}
+						/>
+						<span className="w-20 font-medium">
+							{formatMethod(rule.method) || "ANY"}
+						</span>
+						<span className="flex-1 truncate font-mono" title={rule.url}>
+							{rule.url || rule.host}
+						</span>
+						<span className="font-mono">{rule.status ?? 200}</span>
+						<span className="w-20 text-text-tertiary">
+							{rule.delayMs ? `+${rule.delayMs} ms` : ""}
+						</span>
+						<button
+							type="button"
+							onClick={() => setEditedRule(rule)}
+							disabled={disabled}
+							className={buttonClassName}
+						>
+							Edit
+						</button>
+						<button
+							type="button"
+							onClick={() => onChange(rules.filter(({ id }) => id !== rule.id))}
+							disabled={disabled}
+							className={buttonClassName}
+						>
+							Delete
+						</button>
+					</Card>
+				),
+			)}
+			{editedRule && !rules.some(({ id }) => id === editedRule.id) && (
+				<MockRuleForm
+					rule={editedRule}
+					onSave={handleSave}
+					onCancel={() => setEditedRule(undefined)}
+				/>
+			)}
+		</div>
+	);
+};
@@ -7,32 +7,72 @@ import {
 	useRef,
 	useState,
 } from "react";
-import type { RequestSpan, ResponseSpan, Span } from "@/packages/types";
+import type {
+	ExceptionRecord,
+	LogLevel,
+	LogRecord,
+	ReplayErrorEvent,
+	ReplayRequest,
+	RequestError,
+	RequestSpan,
+	ResponseChunk,
+	ResponseSpan,
+	ServerSpan,
+	SpanAttributes,
+	SpanAttributeValue,
+	TimingPhases,
+} from "@/packages/types";
+import { createReplayRequest, getReplayIssue } from "~/utils/replay";
+import { formatBytes, getTransferSize } from "~/utils/size";
+import type { WebSocketConnection } from "~/utils/spans";
 import { cn } from "~/utils/style";
-import { formatDuration } from "~/utils/time";
+import { formatDuration, formatPreciseDuration } from "~/utils/time";
 import { assertType } from "~/utils/type";
 import { Card } from "./card";
 import { CodeBlock } from "./code-block";
 import { CollapsibleSection } from "./collapsible-section";
 import { CloseIcon } from "./icons";
+import { ReplayForm } from "./replay-form";
 
 export interface SidePanelProps {
 	requestData?: RequestSpan;
 	responseData?: ResponseSpan;
+	chunks?: ResponseChunk[];
+	error?: RequestError;
+	webSocket?: WebSocketConnection;
+	// Logs of the server span and its descendants
+	logs?: LogRecord[];
+	// Exceptions of the server span and its descendants
+	exceptions?: ExceptionRecord[];
 	serverSpanData?: {
-		start?: Span;
-		end?: Span;
+		start?: ServerSpan;
+		end?: ServerSpan;
 		isActive: boolean;
 	};
 	isOpen: boolean;
 	onClose: () => void;
+	// Missing when the plugin can't replay requests
+	onReplay?: (request: ReplayRequest) => void;
+	// Last replay the plugin couldn't send
+	replayError?: ReplayErrorEvent["data"];
+	// Selects another captured request, e.g. the original of a replay
+	onShowRequest?: (id: string) => void;
 	className?: string;
 	isLoading?: boolean;
 }
 
 const MIN_PANEL_WIDTH = 200;
 
-type TabType = "request" | "response" | "server-span";
+type TabType =
+	| "request"
+	| "response"
+	| "timing"
+	| "stream"
+	| "messages"
+	| "error"
+	| "server-span"
+	| "logs"
+	| "exceptions";
 
 type PropertyListEntry = {
 	label: string;
@@ -71,9 +111,75 @@ const PropertyList = ({
 interface HeadersDisplayProps {
 	headers: Record<string, string>;
 	title: string;
+	// Keys which values were masked by the plugin
+	redactedKeys?: string[];
 }
 
-function HeadersDisplay({ headers, title }: HeadersDisplayProps) {
+const RedactedBadge = () => (
+	<span
+		className="ml-2 px-1.5 py-0.5 rounded text-xs font-sans bg-warning/20 text-warning"
+		title="Value was redacted by the Next Network plugin"
+	>
+		redacted
+	</span>
+);
+
+function RedactedBodyNote({ paths }: { paths?: string[] }) {
+	if (!paths?.length) return null;
+
+	return (
+		<div className="mb-2 text-xs text-text-tertiary">
+			<RedactedBadge /> <span className="font-mono">{paths.join(", ")}</span>
+		</div>
+	);
+}
+
+function BodyDisplay({ data }: { data: RequestSpan | ResponseSpan }) {
+	if (!data.body) return null;
+
+	const contentType = data.headers?.["content-type"];
+	const isImage =
+		data.bodyEncoding === "base64" &&
+		!data.bodyTruncated &&
+		contentType?.startsWith("image/");
+
+	return (
+		<>
+			<h3 className="text-sm font-medium mb-2">Body</h3>
+			<Card>
+				<RedactedBodyNote paths={data.redacted?.body} />
+				{data.bodyTruncated && typeof data.contentLength === "number" && (
+					<div className="mb-2 text-xs text-warning">
+						Body is truncated, showing the first{" "}
+						{data.bodyEncoding === "base64"
+							? "part"
+							: formatBytes(new Blob([data.body]).size)}{" "}
+						of {formatBytes(data.contentLength)}
+					</div>
+				)}
+				{data.bodyEncoding === "base64" && (
+					<div className="mb-2 text-xs text-text-tertiary">
+						Binary content
+						{typeof data.contentLength === "number" &&
+							` (${formatBytes(data.contentLength)})`}
+						, shown base64 encoded
+					</div>
+				)}
+				{isImage ? (
+					<img
+						src={`data:${contentType};base64,${data.body}`}
+						alt="Response body preview"
+						className="max-w-full max-h-72"
+					/>
+				) : (
+					<CodeBlock content={data.body} encoding={data.bodyEncoding} />
+				)}
+			</Card>
+		</>
+	);
+}
+
+function HeadersDisplay({ headers, title, redactedKeys }: HeadersDisplayProps) {
 	const headerEntries = Object.entries(headers || {});
 
 	if (headerEntries.length === 0) {
@@ -91,7 +197,14 @@ function HeadersDisplay({ headers, title }: HeadersDisplayProps) {
 				<PropertyList
 					data={headerEntries.map(([key, value]) => ({
 						label: key,
-						value,
+						value: redactedKeys?.includes(key) ? (
+							<>
+								{value}
+								<RedactedBadge />
+							</>
+						) : (
+							value
+						),
 						valueContainerClassName: "break-all",
 					}))}
 				/>
@@ -100,7 +213,21 @@ function HeadersDisplay({ headers, title }: HeadersDisplayProps) {
 	);
 }
 
-function RequestTab({ requestData }: { requestData?: RequestSpan }) {
+const actionButtonClassName =
+	"px-3 py-1 text-xs font-medium border border-border-primary rounded hover:bg-container-primary-hover bg-container-primary text-primary disabled:opacity-50 disabled:cursor-not-allowed";
+
+function RequestTab({
+	requestData,
+	onReplay,
+	replayError,
+	onShowRequest,
+}: {
+	requestData?: RequestSpan;
+	onReplay?: (request: ReplayRequest) => void;
+	replayError?: ReplayErrorEvent["data"];
+	onShowRequest?: (id: string) => void;
+}) {
+	const [isEditing, setIsEditing] = useState(false);
 	const queryParams = useMemo(() => {
 		if (!requestData?.url) return {};
 		try {
@@ -143,6 +270,8 @@ function RequestTab({ requestData }: { requestData?: RequestSpan }) {
 		);
 	}
 
+	const replayIssue = getReplayIssue(requestData);
+
 	return (
 		<div className="space-y-4">
 			{/* Method and URL */}
@@ -160,23 +289,84 @@ function RequestTab({ requestData }: { requestData?: RequestSpan }) {
 				<div className="font-mono text-sm text-primary break-all">
 					{requestData.url}
 				</div>
+				{requestData.replayOf && (
+					<div className="mt-2 text-xs text-text-tertiary">
+						Replay of{" "}
+						{onShowRequest ? (
+							<button
+								type="button"
+								onClick={() =>
+									requestData.replayOf && onShowRequest(requestData.replayOf)
+								}
+								title={requestData.replayOf}
+								className="text-info hover:underline"
+							>
+								original request
+							</button>
+						) : (
+							"original request"
+						)}
+					</div>
+				)}
+				{onReplay && (
+					<div className="flex items-center gap-2 mt-3">
+						<button
+							type="button"
+							onClick={() => onReplay(createReplayRequest(requestData))}
+							disabled={Boolean(replayIssue)}
+							title={replayIssue ?? "Send the request again from the server"}
+							className={actionButtonClassName}
+						>
+							Replay
+						</button>
+						<button
+							type="button"
+							onClick={() => setIsEditing(!isEditing)}
+							className={actionButtonClassName}
+						>
+							Edit and resend
+						</button>
+						{replayIssue && (
+							<span className="text-xs text-warning">{replayIssue}</span>
+						)}
+					</div>
+				)}
+				{onReplay &&
+					replayError &&
+					(replayError.id ?? requestData.id) === requestData.id && (
+						<div className="mt-2 text-xs text-error">
+							Replay failed: {replayError.message}
+						</div>
+					)}
 			</Card>
 
+			{onReplay && isEditing && (
+				<ReplayForm
+					request={createReplayRequest(requestData)}
+					onSubmit={(request) => {
+						onReplay(request);
+						setIsEditing(false);
+					}}
+					onCancel={() => setIsEditing(false)}
+				/>
+			)}
+
 			{/* Query Parameters */}
 			{Object.keys(queryParams).length > 0 && (
-				<HeadersDisplay headers={queryParams} title="Query Parameters" />
+				<HeadersDisplay
+					headers={queryParams}
+					title="Query Parameters"
+					redactedKeys={requestData.redacted?.query}
+				/>
 			)}
 
-			<HeadersDisplay headers={requestData.headers} title="Headers" />
+			<HeadersDisplay
+				headers={requestData.headers}
+				title="Headers"
+				redactedKeys={requestData.redacted?.headers}
+			/>
 
-			{requestData.body && (
-				<>
-					<h3 className="text-sm font-medium mb-2">Body</h3>
-					<Card>
-						<CodeBlock content={requestData.body} />
-					</Card>
-				</>
-			)}
+			<BodyDisplay data={requestData} />
 		</div>
 	);
 }
@@ -204,7 +394,9 @@ function ResponseTab({ responseData }: { responseData?: ResponseSpan }) {
 	}, [responseData]);
 
 	const contentType = responseData?.headers?.["content-type"] || "Unknown";
-	const contentLength = responseData?.headers?.["content-length"];
+	const contentLength =
+		responseData?.contentLength ?? responseData?.headers?.["content-length"];
+	const transferSize = getTransferSize(responseData);
 
 	if (!responseData) {
 		return (
@@ -251,19 +443,22 @@ function ResponseTab({ responseData }: { responseData?: ResponseSpan }) {
 							<span className="font-mono">{contentLength} bytes</span>
 						</div>
 					)}
+					{transferSize !== undefined && (
+						<div className="flex justify-between">
+							<span className="text-text-tertiary">Transferred:</span>
+							<span className="font-mono">{formatBytes(transferSize)}</span>
+						</div>
+					)}
 				</div>
 			</Card>
 
-			<HeadersDisplay headers={responseData.headers} title="Headers" />
+			<HeadersDisplay
+				headers={responseData.headers}
+				title="Headers"
+				redactedKeys={responseData.redacted?.headers}
+			/>
 
-			{responseData.body && (
-				<>
-					<h3 className="text-sm font-medium mb-2">Body</h3>
-					<Card>
-						<CodeBlock content={responseData.body} />
-					</Card>
-				</>
-			)}
+			<BodyDisplay data={responseData} />
 
 			<CollapsibleSection title="Timing" defaultExpanded={false}>
 				<Card>
@@ -297,10 +492,449 @@ function ResponseTab({ responseData }: { responseData?: ResponseSpan }) {
 	);
 }
 
+function StreamTab({
+	requestData,
+	responseData,
+	chunks = [],
+}: {
+	requestData?: RequestSpan;
+	responseData?: ResponseSpan;
+	chunks?: ResponseChunk[];
+}) {
+	const startTime = requestData?.start ?? responseData?.start;
+	const totalSize = useMemo(
+		() => chunks.reduce((total, chunk) => total + chunk.size, 0),
+		[chunks],
+	);
+	const isActive = Boolean(responseData?.streaming && !responseData.end);
+
+	if (chunks.length === 0) {
+		return (
+			<div className="flex items-center justify-center h-64 text-text-tertiary">
+				<div className="text-center">
+					<div className="text-lg font-semibold mb-2">No Chunks Yet</div>
+					<div className="text-sm">
+						Chunks will appear here as the response is streamed
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-4">
+			<Card className="flex flex-col gap-3">
+				<div className="flex items-center gap-3">
+					<span
+						className={`px-3 py-1 rounded font-medium text-sm ${
+							isActive
+								? "bg-warning/20 text-warning"
+								: "bg-primary/20 text-primary"
+						}`}
+					>
+						{isActive ? "STREAMING" : "COMPLETED"}
+					</span>
+				</div>
+				<PropertyList
+					data={[
+						...(startTime
+							? [
+									{
+										label: "Time to first byte:",
+										value: formatDuration(chunks[0].timestamp - startTime),
+									},
+								]
+							: []),
+						{ label: "Chunks:", value: chunks.length },
+						{ label: "Received:", value: formatBytes(totalSize) },
+					]}
+				/>
+			</Card>
+
+			<div className="space-y-2">
+				{chunks.map((chunk) => (
+					<Card key={chunk.index} className="p-2">
+						<div className="flex justify-between mb-1 text-xs text-text-tertiary">
+							<span>#{chunk.index + 1}</span>
+							<span>
+								{startTime
+									? `+${formatDuration(chunk.timestamp - startTime)}`
+									: new Date(chunk.timestamp).toLocaleTimeString()}{" "}
+								· {formatBytes(chunk.size)}
+							</span>
+						</div>
+						<CodeBlock
+							content={chunk.data}
+							language="text"
+							encoding={chunk.encoding}
+							maxHeight="150px"
+						/>
+					</Card>
+				))}
+			</div>
+		</div>
+	);
+}
+
+function MessagesTab({
+	requestData,
+	webSocket,
+}: {
+	requestData?: RequestSpan;
+	webSocket: WebSocketConnection;
+}) {
+	const { open, messages, close } = webSocket;
+	const startTime = requestData?.start ?? open?.timestamp;
+	const state = close ? "CLOSED" : open ? "OPEN" : "CONNECTING";
+
+	return (
+		<div className="space-y-4">
+			<Card className="flex flex-col gap-3">
+				<div className="flex items-center gap-3">
+					<span
+						className={cn(
+							"px-3 py-1 rounded font-medium text-sm",
+							state === "OPEN"
+								? "bg-success/20 text-success"
+								: state === "CONNECTING"
+									? "bg-warning/20 text-warning"
+									: "bg-primary/20 text-primary",
+						)}
+					>
+						{state}
+					</span>
+				</div>
+				<PropertyList
+					data={[
+						...(open?.protocol
+							? [{ label: "Protocol:", value: open.protocol }]
+							: []),
+						{ label: "Messages:", value: messages.length },
+						...(close
+							? [
+									{
+										label: "Close code:",
+										value: close.reason
+											? `${close.code} (${close.reason})`
+											: close.code,
+										valueContainerClassName: "break-all",
+									},
+									...(open
+										? [
+												{
+													label: "Open for:",
+													value: formatDuration(close.end - open.timestamp),
+												},
+											]
+										: []),
+								]
+							: []),
+					]}
+				/>
+			</Card>
+
+			{messages.length === 0 ? (
+				<Card className="text-text-tertiary text-sm italic">
+					No messages yet
+				</Card>
+			) : (
+				<div className="space-y-2">
+					{messages.map((message) => (
+						<Card
+							key={message.index}
+							className={cn(
+								"p-2",
+								message.direction === "outgoing" && "bg-success/10",
+							)}
+						>
+							<div className="flex justify-between mb-1 text-xs text-text-tertiary">
+								<span
+									title={
+										message.direction === "outgoing"
+											? "Sent by the app"
+											: "Received from the server"
+									}
+								>
+									{message.direction === "outgoing" ? "↑" : "↓"} #
+									{message.index + 1}
+									{message.encoding === "base64" && " · binary, base64 encoded"}
+									{message.truncated && (
+										<span className="text-warning"> · truncated</span>
+									)}
+								</span>
+								<span>
+									{startTime
+										? `+${formatDuration(message.timestamp - startTime)}`
+										: new Date(message.timestamp).toLocaleTimeString()}{" "}
+									· {formatBytes(message.size)}
+								</span>
+							</div>
+							<RedactedBodyNote paths={message.redacted?.body} />
+							<CodeBlock
+								content={message.data}
+								encoding={message.encoding}
+								maxHeight="150px"
+							/>
+						</Card>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+const logLevelClassNames: Record<LogLevel, string> = {
+	trace: "text-text-tertiary",
+	debug: "text-text-tertiary",
+	info: "text-info",
+	warn: "text-warning",
+	error: "text-error",
+	fatal: "text-error",
+};
+
+function LogsTab({
+	logs,
+	startTime,
+}: {
+	logs: LogRecord[];
+	startTime?: number;
+}) {
+	return (
+		<div className="space-y-2">
+			{logs.map((log) => (
+				<Card
+					key={log.id}
+					className={cn(
+						"p-2",
+						(log.level === "error" || log.level === "fatal") &&
+							"border-error-border",
+					)}
+				>
+					<div className="flex justify-between mb-1 text-xs text-text-tertiary">
+						<span>
+							<span
+								className={cn(
+									"font-medium uppercase",
+									logLevelClassNames[log.level],
+								)}
+							>
+								{log.level}
+							</span>{" "}
+							· {log.source}
+							{log.truncated && (
+								<span className="text-warning"> · truncated</span>
+							)}
+						</span>
+						<span>
+							{startTime
+								? `+${formatDuration(log.timestamp - startTime)}`
+								: new Date(log.timestamp).toLocaleTimeString()}
+						</span>
+					</div>
+					<pre className="text-sm font-mono whitespace-pre-wrap break-all text-primary">
+						{log.message}
+					</pre>
+					{log.attributes && Object.keys(log.attributes).length > 0 && (
+						<PropertyList
+							className="mt-2"
+							data={Object.entries(log.attributes).map(([key, value]) => ({
+								label: key,
+								value: formatAttributeValue(value),
+								valueContainerClassName: "break-all",
+							}))}
+						/>
+					)}
+				</Card>
+			))}
+		</div>
+	);
+}
+
+const exceptionSourceLabels: Record<ExceptionRecord["source"], string> = {
+	span: "recorded on span",
+	"uncaught-exception": "uncaught exception",
+	"unhandled-rejection": "unhandled rejection",
+};
+
+function ExceptionsTab({
+	exceptions,
+	startTime,
+}: {
+	exceptions: ExceptionRecord[];
+	startTime?: number;
+}) {
+	return (
+		<div className="space-y-2">
+			{exceptions.map((exception) => (
+				<Card key={exception.id} className="p-2 border-error-border">
+					<div className="flex justify-between mb-1 text-xs text-text-tertiary">
+						<span>
+							<span className="font-medium text-error">
+								{exception.type ?? "Error"}
+							</span>{" "}
+							· {exceptionSourceLabels[exception.source]}
+						</span>
+						<span>
+							{startTime
+								? `+${formatDuration(exception.timestamp - startTime)}`
+								: new Date(exception.timestamp).toLocaleTimeString()}
+						</span>
+					</div>
+					<span className="text-error text-sm break-all">
+						{exception.message}
+					</span>
+					{exception.stack && (
+						<pre className="mt-2 text-xs font-mono whitespace-pre-wrap break-all text-text-secondary">
+							{exception.stack}
+						</pre>
+					)}
+				</Card>
+			))}
+		</div>
+	);
+}
+
+const formatAttributeValue = (value: SpanAttributeValue | undefined) =>
+	Array.isArray(value) ? JSON.stringify(value) : String(value);
+
+function AttributesList({ attributes }: { attributes?: SpanAttributes }) {
+	const entries = Object.entries(attributes ?? {});
+
+	if (entries.length === 0) {
+		return (
+			<Card className="text-text-tertiary text-sm italic">No attributes</Card>
+		);
+	}
+
+	return (
+		<Card>
+			<PropertyList
+				data={entries
+					.sort(([a], [b]) => a.localeCompare(b))
+					.map(([key, value]) => ({
+						label: key,
+						value: formatAttributeValue(value),
+						valueContainerClassName: "break-all",
+					}))}
+			/>
+		</Card>
+	);
+}
+
+function ErrorTab({
+	requestData,
+	error,
+}: {
+	requestData?: RequestSpan;
+	error: RequestError;
+}) {
+	const duration = requestData?.start
+		? error.end - requestData.start
+		: undefined;
+
+	return (
+		<div className="space-y-4">
+			<Card className="flex flex-col gap-3">
+				<div className="flex items-center gap-3">
+					<span className="px-3 py-1 rounded font-medium text-sm bg-error/20 text-error">
+						{error.aborted ? "CANCELED" : "FAILED"}
+					</span>
+					{duration !== undefined && (
+						<span className="text-text-tertiary text-sm">
+							after {formatDuration(duration)}
+						</span>
+					)}
+				</div>
+				<span className="text-error text-sm break-all">{error.message}</span>
+			</Card>
+			<Card>
+				<PropertyList
+					data={[
+						...(error.code ? [{ label: "Code:", value: error.code }] : []),
+						...(error.abortReason
+							? [{ label: "Abort reason:", value: error.abortReason }]
+							: []),
+						{
+							label: "Failed at:",
+							value: new Date(error.end).toLocaleString(),
+						},
+					]}
+				/>
+			</Card>
+		</div>
+	);
+}
+
+const TIMING_PHASES: {
+	key: keyof TimingPhases;
+	label: string;
+	className: string;
+}[] = [
+	{ key: "dns", label: "DNS Lookup", className: "bg-info" },
+	{ key: "tcp", label: "TCP Connection", className: "bg-warning" },
+	{ key: "tls", label: "TLS Handshake", className: "bg-neutral" },
+	{ key: "ttfb", label: "Waiting for Server", className: "bg-success" },
+	{ key: "download", label: "Content Download", className: "bg-info/60" },
+];
+
+function TimingTab({ timings }: { timings: TimingPhases }) {
+	const phases = TIMING_PHASES.map((phase) => ({
+		...phase,
+		duration: timings[phase.key],
+	}));
+	const total = phases.reduce((sum, phase) => sum + (phase.duration ?? 0), 0);
+	let offset = 0;
+
+	return (
+		<div className="space-y-4">
+			<Card>
+				<div className="grid grid-cols-[max-content_1fr_max-content] items-center gap-x-4 gap-y-2 text-sm">
+					{phases.map(({ key, label, className, duration }) => {
+						const left = offset;
+						offset += duration ?? 0;
+						return (
+							<Fragment key={key}>
+								<span className="text-text-tertiary">{label}</span>
+								<div className="relative h-3">
+									{duration !== undefined && total > 0 && (
+										<div
+											className={cn("absolute h-full min-w-px", className)}
+											style={{
+												left: `${(left / total) * 100}%`,
+												width: `${(duration / total) * 100}%`,
+											}}
+										/>
+									)}
+								</div>
+								<span className="font-mono text-right">
+									{duration === undefined
+										? "–"
+										: formatPreciseDuration(duration)}
+								</span>
+							</Fragment>
+						);
+					})}
+					<span className="font-medium">Total</span>
+					<span />
+					<span className="font-mono font-medium text-right">
+						{formatPreciseDuration(total)}
+					</span>
+				</div>
+			</Card>
+			{timings.dns === undefined && timings.tcp === undefined && (
+				<p className="text-text-tertiary text-sm">
+					Connection phases are missing when an existing connection was reused
+					or when the Node.js version of the app doesn't report them.
+				</p>
+			)}
+		</div>
+	);
+}
+
 function ServerSpanTab({
 	serverSpanData,
 }: {
-	serverSpanData?: { start?: Span; end?: Span; isActive: boolean };
+	serverSpanData?: { start?: ServerSpan; end?: ServerSpan; isActive: boolean };
 }) {
 	if (!serverSpanData) {
 		return (
@@ -319,6 +953,10 @@ function ServerSpanTab({
 		serverSpanData.start && serverSpanData.end?.end
 			? serverSpanData.end.end - serverSpanData.start.start
 			: undefined;
+	// End event carries the final state of the span
+	const span = serverSpanData.end ?? serverSpanData.start;
+	const isError = span?.status?.code === "error";
+	const db = span?.db;
 
 	return (
 		<div className="space-y-4">
@@ -335,6 +973,19 @@ function ServerSpanTab({
 					>
 						{serverSpanData.isActive ? "ACTIVE" : "COMPLETED"}
 					</span>
+					{isError && (
+						<span
+							className="px-3 py-1 rounded font-medium text-sm bg-error/20 text-error"
+							title={span?.status?.message}
+						>
+							ERROR
+						</span>
+					)}
+					{span?.kind && (
+						<span className="text-text-tertiary text-xs uppercase">
+							{span.kind}
+						</span>
+					)}
 					{duration && (
 						<span className="text-text-tertiary text-sm">
 							{formatDuration(duration)}
@@ -344,8 +995,43 @@ function ServerSpanTab({
 				<span className="font-medium text-primary text-sm">
 					{serverSpanData.start?.id || "Unknown Server Span"}
 				</span>
+				{isError && span?.status?.message && (
+					<span className="text-error text-sm break-all">
+						{span.status.message}
+					</span>
+				)}
 			</Card>
 
+			{db && (
+				<CollapsibleSection title="Query" defaultExpanded={true}>
+					<Card className="flex flex-col gap-3">
+						<PropertyList
+							data={[
+								{ label: "Database:", value: db.system },
+								...(db.namespace
+									? [
+											{
+												label: "Namespace:",
+												value: db.namespace,
+												valueContainerClassName: "break-all",
+											},
+										]
+									: []),
+								...(db.operation
+									? [{ label: "Operation:", value: db.operation }]
+									: []),
+								...(db.rows !== undefined
+									? [{ label: "Rows:", value: db.rows }]
+									: []),
+							]}
+						/>
+						{db.statement && (
+							<CodeBlock content={db.statement} language="sql" />
+						)}
+					</Card>
+				</CollapsibleSection>
+			)}
+
 			{/* Timing Information */}
 			<CollapsibleSection title="Timing Information" defaultExpanded={true}>
 				<Card>
@@ -384,6 +1070,86 @@ function ServerSpanTab({
 					/>
 				</Card>
 			</CollapsibleSection>
+
+			<CollapsibleSection title="Attributes" defaultExpanded={true}>
+				<AttributesList attributes={span?.attributes} />
+			</CollapsibleSection>
+
+			{span?.events && span.events.length > 0 && (
+				<CollapsibleSection title="Events" defaultExpanded={true}>
+					<div className="space-y-2">
+						{span.events.map((event, index) => (
+							<Card
+								key={`${event.name}-${index}`}
+								className={cn(
+									"flex flex-col gap-2",
+									event.name === "exception" && "border-error-border",
+								)}
+							>
+								<div className="flex justify-between text-sm">
+									<span
+										className={cn(
+											"font-medium",
+											event.name === "exception" && "text-error",
+										)}
+									>
+										{event.name}
+									</span>
+									<span className="text-text-tertiary">
+										{span.start
+											? `+${formatDuration(event.time - span.start)}`
+											: new Date(event.time).toLocaleTimeString()}
+									</span>
+								</div>
+								{event.name === "exception" &&
+								typeof event.attributes?.["exception.stacktrace"] ===
+									"string" ? (
+									<>
+										<span className="text-sm text-error break-all">
+											{formatAttributeValue(event.attributes["exception.type"])}
+											:{" "}
+											{formatAttributeValue(
+												event.attributes["exception.message"],
+											)}
+										</span>
+										<CodeBlock
+											content={event.attributes["exception.stacktrace"]}
+											language="text"
+										/>
+									</>
+								) : (
+									event.attributes &&
+									Object.keys(event.attributes).length > 0 && (
+										<PropertyList
+											data={Object.entries(event.attributes).map(
+												([key, value]) => ({
+													label: key,
+													value: formatAttributeValue(value),
+													valueContainerClassName: "break-all",
+												}),
+											)}
+										/>
+									)
+								)}
+							</Card>
+						))}
+					</div>
+				</CollapsibleSection>
+			)}
+
+			{span?.links && span.links.length > 0 && (
+				<CollapsibleSection title="Links" defaultExpanded={false}>
+					<Card>
+						<PropertyList
+							data={span.links.map((link) => ({
+								label: `Span ${link.spanId}`,
+								value: `Trace ${link.traceId}`,
+								valueContainerClassName: "break-all",
+							}))}
+						/>
+					</Card>
+				</CollapsibleSection>
+			)}
 		</div>
 	);
 }
@@ -423,9 +1189,17 @@ function Tab({
 export default function SidePanel({
 	requestData,
 	responseData,
+	chunks,
+	error,
+	webSocket,
+	logs,
+	exceptions,
 	serverSpanData,
 	isOpen,
 	onClose,
+	onReplay,
+	replayError,
+	onShowRequest,
 	className = "",
 }: SidePanelProps) {
 	const [activeTab, setActiveTab] = useState<TabType>(
@@ -464,14 +1238,21 @@ export default function SidePanel({
 		};
 	}, [isOpen]);
 
+	// Messages update the connection, only a new entry should reset the tab
+	const hasWebSocket = Boolean(webSocket);
+
 	// Reset active tab when entry changes
 	useEffect(() => {
 		if (serverSpanData) {
 			setActiveTab("server-span");
+		} else if (error) {
+			setActiveTab("error");
+		} else if (hasWebSocket) {
+			setActiveTab("messages");
 		} else {
 			setActiveTab("request");
 		}
-	}, [serverSpanData]);
+	}, [serverSpanData, error, hasWebSocket]);
 
 	// Escape key handler
 	useEffect(() => {
@@ -612,6 +1393,66 @@ export default function SidePanel({
 							<span className="ml-1 text-xs text-text-tertiary">(N/A)</span>
 						)}
 					</Tab>
+					{responseData?.timings && (
+						<Tab
+							onClick={() => setActiveTab("timing")}
+							isActive={activeTab === "timing"}
+							id="timing-panel"
+						>
+							Timing
+						</Tab>
+					)}
+					{(responseData?.streaming || Boolean(chunks?.length)) && (
+						<Tab
+							onClick={() => setActiveTab("stream")}
+							isActive={activeTab === "stream"}
+							id="stream-panel"
+						>
+							Stream
+						</Tab>
+					)}
+					{webSocket && (
+						<Tab
+							onClick={() => setActiveTab("messages")}
+							isActive={activeTab === "messages"}
+							id="messages-panel"
+						>
+							Messages
+						</Tab>
+					)}
+					{serverSpanData && Boolean(logs?.length) && (
+						<Tab
+							onClick={() => setActiveTab("logs")}
+							isActive={activeTab === "logs"}
+							id="logs-panel"
+						>
+							Logs
+							<span className="ml-1 text-xs text-text-tertiary">
+								({logs?.length})
+							</span>
+						</Tab>
+					)}
+					{serverSpanData && Boolean(exceptions?.length) && (
+						<Tab
+							onClick={() => setActiveTab("exceptions")}
+							isActive={activeTab === "exceptions"}
+							id="exceptions-panel"
+						>
+							<span className="text-error">Errors</span>
+							<span className="ml-1 text-xs text-text-tertiary">
+								({exceptions?.length})
+							</span>
+						</Tab>
+					)}
+					{error && (
+						<Tab
+							onClick={() => setActiveTab("error")}
+							isActive={activeTab === "error"}
+							id="error-panel"
+						>
+							<span className="text-error">Error</span>
+						</Tab>
+					)}
 				</div>
 
 				{/* Tab Content */}
@@ -619,11 +1460,66 @@ export default function SidePanel({
 					{(() => {
 						switch (activeTab) {
 							case "request":
-								return <RequestTab requestData={requestData} />;
+								return (
+									<RequestTab
+										// Edits of one request aren't kept for the next one
+										key={requestData?.id}
+										requestData={requestData}
+										// WebSockets can't be replayed
+										onReplay={webSocket ? undefined : onReplay}
+										replayError={replayError}
+										onShowRequest={onShowRequest}
+									/>
+								);
 							case "response":
 								return <ResponseTab responseData={responseData} />;
+							case "timing":
+								return (
+									responseData?.timings && (
+										<TimingTab timings={responseData.timings} />
+									)
+								);
+							case "stream":
+								return (
+									<StreamTab
+										requestData={requestData}
+										responseData={responseData}
+										chunks={chunks}
+									/>
+								);
+							case "messages":
+								return (
+									webSocket && (
+										<MessagesTab
+											requestData={requestData}
+											webSocket={webSocket}
+										/>
+									)
+								);
+							case "error":
+								return (
+									error && <ErrorTab requestData={requestData} error={error} />
+								);
 							case "server-span":
 								return <ServerSpanTab serverSpanData={serverSpanData} />;
+							case "logs":
+								return (
+									logs && (
+										<LogsTab
+											logs={logs}
+											startTime={serverSpanData?.start?.start}
+										/>
+									)
+								);
+							case "exceptions":
+								return (
+									exceptions && (
+										<ExceptionsTab
+											exceptions={exceptions}
+											startTime={serverSpanData?.start?.start}
+										/>
+									)
+								);
 							default:
 								assertType<never>(activeTab);
 						}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import type { ReplayRequest } from "@/packages/types";
+import { formatHeaders, parseHeaders } from "~/utils/headers";
+import { cn } from "~/utils/style";
+import { Card } from "./card";
+
+export interface ReplayFormProps {
+	request: ReplayRequest;
+	onSubmit: (request: ReplayRequest) => void;
+	onCancel: () => void;
+}
+
+const inputClassName =
+	"px-2 py-1 border border-border-primary rounded bg-container-primary text-primary";
+const buttonClassName =
+	"px-3 py-1 text-xs font-medium border border-border-primary rounded hover:bg-container-primary-hover bg-container-primary text-primary disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Edits a captured request before the plugin sends it again
+ */
+export const ReplayForm = ({
+	request,
+	onSubmit,
+	onCancel,
+}: ReplayFormProps) => {
+	const [method, setMethod] = useState(request.method);
+	const [url, setUrl] = useState(request.url);
+	const [headers, setHeaders] = useState(formatHeaders(request.headers));
+	const [body, setBody] = useState(request.body ?? "");
+	// Binary bodies can't be edited as text, they're sent as captured
+	const isBinaryBody = request.bodyEncoding === "base64";
+
+	const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		onSubmit({
+			...request,
+			method: method.trim().toUpperCase(),
+			url: url.trim(),
+			headers: parseHeaders(headers),
+			...(!isBinaryBody && { body: body || undefined }),
+		});
+	};
+
+	return (
+		<Card className="p-3">
+			<form className="flex flex-col gap-2 text-sm" onSubmit={handleSubmit}>
+				<div className="flex gap-2">
+					<input
+						type="text"
+						required
+						aria-label="Method"
+						value={method}
+						onChange={(event) => setMethod(event.currentTarget.value)}
+						className={cn("w-24 font-medium", inputClassName)}
+					/>
+					<input
+						type="url"
+						required
+						aria-label="URL"
+						value={url}
+						onChange={(event) => setUrl(event.currentTarget.value)}
+						className={cn("flex-1 font-mono", inputClassName)}
+					/>
+				</div>
+				<label className="flex flex-col gap-1">
+					Headers:
+					<textarea
+						rows={6}
+						value={headers}
+						onChange={(event) => setHeaders(event.currentTarget.value)}
+						className={cn("font-mono", inputClassName)}
+					/>
+				</label>
+				<label className="flex flex-col gap-1">
+					Body:
+					<textarea
+						rows={8}
+						value={isBinaryBody ? "Binary body is sent as captured" : body}
+						disabled={isBinaryBody}
+						onChange={(event) => setBody(event.currentTarget.value)}
+						className={cn("font-mono disabled:opacity-60", inputClassName)}
+					/>
+				</label>
+				<div className="flex justify-end gap-2">
+					<button type="button" onClick={onCancel} className={buttonClassName}>
+						Cancel
+					</button>
+					<button type="submit" className={buttonClassName}>
+						Send
+					</button>
+				</div>
+			</form>
+		</Card>
+	);
+};
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import type { TrafficFilter } from "@/packages/types";
+import {
+	formatUrlPatterns,
+	parseUrlPatterns,
+} from "~/utils/subscription-filter";
+
+export interface SubscriptionFilterFormProps {
+	filter: TrafficFilter;
+	onChange: (filter: TrafficFilter) => void;
+}
+
+/**
+ * Unlike the URL filter, events filtered out here aren't sent by the plugin
+ */
+export const SubscriptionFilterForm = ({
+	filter,
+	onChange,
+}: SubscriptionFilterFormProps) => {
+	const [includeInput, setIncludeInput] = useState(
+		formatUrlPatterns(filter.include),
+	);
+	const [excludeInput, setExcludeInput] = useState(
+		formatUrlPatterns(filter.exclude),
+	);
+
+	useEffect(() => {
+		setIncludeInput(formatUrlPatterns(filter.include));
+		setExcludeInput(formatUrlPatterns(filter.exclude));
+	}, [filter]);
+
+	const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		onChange({
+			include: parseUrlPatterns(includeInput),
+			exclude: parseUrlPatterns(excludeInput),
+		});
+	};
+
+	return (
+		<form
+			className="flex items-center gap-2 text-sm"
+			onSubmit={handleSubmit}
+			title="Comma separated URL patterns with * wildcards, patterns starting with / match the path only"
+		>
+			<label className="flex flex-1 items-center gap-2">
+				Only receive:
+				<input
+					type="text"
+					placeholder="/api/*"
+					value={includeInput}
+					onChange={(event) => setIncludeInput(event.currentTarget.value)}
+					className="flex-1 px-2 py-1 border border-border-primary rounded bg-container-primary text-primary"
+				/>
+			</label>
+			<label className="flex flex-1 items-center gap-2">
+				Skip:
+				<input
+					type="text"
+					placeholder="/_next/static/*, *.sentry.io/*"
+					value={excludeInput}
+					onChange={(event) => setExcludeInput(event.currentTarget.value)}
+					className="flex-1 px-2 py-1 border border-border-primary rounded bg-container-primary text-primary"
+				/>
+			</label>
+			<button
+				type="submit"
+				className="px-3 py-1 text-xs font-medium border border-border-primary rounded hover:bg-container-primary-hover bg-container-primary text-primary"
+			>
+				Apply
+			</button>
+		</form>
+	);
+};
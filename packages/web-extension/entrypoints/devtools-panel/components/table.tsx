@@ -1,6 +1,23 @@
 import { Fragment, useLayoutEffect, useMemo, useRef, useState } from "react";
-import type { RequestSpan, ResponseSpan, Span } from "@/packages/types";
-import type { SpanTree } from "~/utils/spans";
+import type {
+	DbQuery,
+	ExceptionRecord,
+	RequestError,
+	RequestSpan,
+	ResponseSpan,
+	ServerSpan,
+} from "@/packages/types";
+import {
+	addTransferSizes,
+	formatBytes,
+	getTransferSize,
+	type TransferSize,
+} from "~/utils/size";
+import {
+	getDbQuery,
+	type SpanTree,
+	type WebSocketConnection,
+} from "~/utils/spans";
 import { truncate } from "~/utils/string";
 import { cn } from "~/utils/style";
 import { formatDuration } from "~/utils/time";
@@ -9,13 +26,16 @@ import { isTruthy } from "~/utils/type";
 type SpanNode = {
 	// Server span data (from span-start/span-end events)
 	serverSpan?: {
-		start?: Span;
-		end?: Span;
+		start?: ServerSpan;
+		end?: ServerSpan;
 		isActive: boolean;
 	};
 	// Request/response data (existing)
 	request?: RequestSpan;
 	response?: ResponseSpan;
+	error?: RequestError;
+	webSocket?: WebSocketConnection;
+	exceptions?: ExceptionRecord[];
 	// Hierarchical structure
 	children: SpanNode[];
 	// Metadata for organization
@@ -34,10 +54,26 @@ export interface HttpRequestData {
 	timestamp: number;
 	request?: RequestSpan;
 	response?: ResponseSpan;
+	error?: RequestError;
+	webSocket?: WebSocketConnection;
+	// Set for database query spans, shown as query rows
+	db?: DbQuery;
+	// Query span ended with an error status
+	failed?: boolean;
+	// Recorded on the server span itself, not on its descendants
+	exceptions?: ExceptionRecord[];
+	// Own size of requests, total of all nested requests for server spans
+	size: TransferSize;
 	children: HttpRequestData[];
 }
 
-export type SortColumn = "status" | "method" | "url" | "duration";
+export type SortColumn =
+	| "status"
+	| "method"
+	| "url"
+	| "sent"
+	| "received"
+	| "duration";
 export type SortDirection = "asc" | "desc";
 
 export interface TableProps {
@@ -56,6 +92,19 @@ interface GroupState {
 	[groupId: string]: boolean;
 }
 
+const getMessagesSize = ({ messages }: WebSocketConnection): TransferSize =>
+	addTransferSizes(
+		...messages.map((message) => ({
+			[message.direction === "outgoing" ? "sent" : "received"]: message.size,
+		})),
+	);
+
+const getSubtreeSize = (entry: HttpRequestData): TransferSize =>
+	addTransferSizes(
+		entry.request ? entry.size : undefined,
+		...entry.children.map(getSubtreeSize),
+	);
+
 export function transformSpanTreeToTableData(
 	spanTree: SpanTree,
 ): HttpRequestData[] {
@@ -77,17 +126,23 @@ export function transformSpanTreeToTableData(
 			// Create a meaningful display name from span attributes
 			const displayName =
 				spanStart?.id || `Server Span ${node.spanId || "Unknown"}`;
+			const db = getDbQuery(node);
 
 			const serverSpanData: HttpRequestData = {
 				id: node.spanId || `server-${Date.now()}-${Math.random()}`,
 				parentSpanId: parentId,
 				status: undefined, // Server spans don't have HTTP status
-				method: "",
-				url: displayName,
+				// Queries show the database in place of the method
+				method: db?.system ?? "",
+				url: db?.statement ?? displayName,
 				duration,
 				timestamp: startTime,
 				request: undefined, // Server spans don't have request data
 				response: undefined, // Server spans don't have response data
+				db,
+				failed: db && (spanEnd ?? spanStart)?.status?.code === "error",
+				exceptions: node.exceptions,
+				size: {},
 				children: [],
 			};
 
@@ -96,6 +151,9 @@ export function transformSpanTreeToTableData(
 				serverSpanData.children = node.children
 					.map((child) => processNode(child, node.spanId))
 					.filter(isTruthy);
+				serverSpanData.size = addTransferSizes(
+					...serverSpanData.children.map(getSubtreeSize),
+				);
 			}
 			return serverSpanData;
 		}
@@ -103,7 +161,12 @@ export function transformSpanTreeToTableData(
 		else if (node.request) {
 			// Calculate accurate duration from request/response timing
 			const requestStart = node.request.start || 0;
-			const responseEnd = node.response?.end || node.request.end || 0;
+			const responseEnd =
+				node.response?.end ||
+				node.webSocket?.close?.end ||
+				node.error?.end ||
+				node.request.end ||
+				0;
 			const duration =
 				responseEnd > requestStart ? responseEnd - requestStart : undefined;
 
@@ -113,13 +176,23 @@ export function transformSpanTreeToTableData(
 			const requestData: HttpRequestData = {
 				id: requestId,
 				parentSpanId: parentId,
-				status: node.response?.status,
+				// Successful WebSocket handshakes switch protocols
+				status:
+					node.response?.status ?? (node.webSocket?.open ? 101 : undefined),
 				method: node.request.method,
 				url: node.request.url,
 				duration,
 				timestamp: requestStart,
 				request: node.request,
 				response: node.response,
+				error: node.error,
+				webSocket: node.webSocket,
+				size: node.webSocket
+					? getMessagesSize(node.webSocket)
+					: {
+							sent: getTransferSize(node.request),
+							received: getTransferSize(node.response),
+						},
 				children: [],
 			};
 
@@ -175,6 +248,11 @@ const sortData = (
 					aVal = a.url;
 					bVal = b.url;
 					break;
+				case "sent":
+				case "received":
+					aVal = a.size[column] ?? 0;
+					bVal = b.size[column] ?? 0;
+					break;
 				case "duration":
 					aVal = a.duration ?? 0;
 					bVal = b.duration ?? 0;
@@ -197,6 +275,23 @@ const sortData = (
 			}),
 		);
 
+const formatRows = (rows: number | undefined) =>
+	rows === undefined ? "-" : `${rows} ${rows === 1 ? "row" : "rows"}`;
+
+const getSizeTitle = (span: RequestSpan | ResponseSpan | undefined) => {
+	if (!span?.size) return undefined;
+	const { headers, encodedBody, decodedBody } = span.size;
+	return [
+		`Headers: ${formatBytes(headers)}`,
+		encodedBody !== undefined && `Body: ${formatBytes(encodedBody)}`,
+		decodedBody !== undefined &&
+			decodedBody !== encodedBody &&
+			`Decoded body: ${formatBytes(decodedBody)}`,
+	]
+		.filter(isTruthy)
+		.join("\n");
+};
+
 export function HttpRequestsTable({
 	data,
 	loading = false,
@@ -318,6 +413,8 @@ export function HttpRequestsTable({
 				key={request.id}
 				className={cn(
 					"border-b border-border-primary px-4 py-3 cursor-pointer transition-colors text-primary focus:outline-none",
+					(request.error || request.failed) && "text-error",
+					request.exceptions?.length && "text-error bg-error/5",
 					selectedRowId === request.id
 						? "bg-primary/10"
 						: "hover:bg-container-primary-hover",
@@ -326,7 +423,7 @@ export function HttpRequestsTable({
 				// biome-ignore lint/a11y/noNoninteractiveTabindex: the element is interactive
 				tabIndex={0}
 			>
-				<div className="grid grid-cols-12 gap-4 items-center text-sm">
+				<div className="grid grid-cols-16 gap-4 items-center text-sm">
 					{request.method || request.status ? (
 						<>
 							<div
@@ -349,9 +446,41 @@ export function HttpRequestsTable({
 									</button>
 								)}
 								{truncateUrl(request.url)}
+								{request.request?.mockRuleId && (
+									<span
+										className="ml-2 px-1 rounded text-xs bg-info/20 text-info"
+										title="Answered by a mock rule of the plugin"
+									>
+										mocked
+									</span>
+								)}
+								{request.request?.faultRuleId && (
+									<span
+										className="ml-2 px-1 rounded text-xs bg-warning/20 text-warning"
+										title="Slowed down or failed on purpose by a fault rule of the plugin"
+									>
+										fault
+									</span>
+								)}
+								{request.request?.replayOf && (
+									<span
+										className="ml-2 px-1 rounded text-xs bg-success/20 text-success"
+										title="Sent again by the plugin from the side panel"
+									>
+										replay
+									</span>
+								)}
 							</div>
 							<div className="col-span-2 font-medium">{request.method}</div>
-							<div className="col-span-2">{request.status}</div>
+							<div className="col-span-2" title={request.error?.message}>
+								{request.error
+									? request.error.aborted
+										? "(canceled)"
+										: `(failed) ${request.error.code ?? ""}`.trim()
+									: request.db
+										? formatRows(request.db.rows)
+										: request.status}
+							</div>
 						</>
 					) : (
 						<div
@@ -373,13 +502,55 @@ export function HttpRequestsTable({
 									{groupState[request.id] ? "▶" : "▼"}
 								</button>
 							)}
+							{request.exceptions?.length ? (
+								<span
+									className="mr-2 font-medium"
+									title={request.exceptions
+										.map(({ type, message }) =>
+											[type, message].filter(Boolean).join(": "),
+										)
+										.join("\n")}
+								>
+									✕ {request.exceptions.length}
+								</span>
+							) : null}
 							{truncateUrl(request.url)}
 						</div>
 					)}
+					{(["sent", "received"] as const).map((direction) => (
+						<div
+							key={direction}
+							className={cn(
+								"col-span-2 font-mono",
+								!request.request && !request.db && "italic",
+							)}
+							title={
+								request.db
+									? undefined
+									: request.webSocket
+										? `Total of ${direction === "sent" ? "outgoing" : "incoming"} messages`
+										: request.request
+											? getSizeTitle(
+													direction === "sent"
+														? request.request
+														: request.response,
+												)
+											: "Total of all requests in this trace"
+							}
+						>
+							{request.size[direction] === undefined
+								? "-"
+								: formatBytes(request.size[direction])}
+						</div>
+					))}
 					<div className="col-span-2 font-mono">
-						{typeof request.duration === "number"
-							? formatDuration(request.duration)
-							: "-"}
+						{request.response?.streaming && !request.response.end
+							? "streaming…"
+							: request.webSocket && !request.webSocket.close && !request.error
+								? "open…"
+								: typeof request.duration === "number"
+									? formatDuration(request.duration)
+									: "-"}
 					</div>
 				</div>
 			</div>
@@ -426,7 +597,7 @@ export function HttpRequestsTable({
 			{/* Table Header */}
 			<div className="border-y border-border-primary px-4 py-3 sticky top-0 bg-neutral-bg">
 				<div
-					className="grid grid-cols-12 gap-4 text-sm font-medium text-secondary 
+					className="grid grid-cols-16 gap-4 text-sm font-medium text-secondary 
 						border-b-2 border-transparent"
 					// ^ Border here mostly to align with the tabs in the panel because they also have a border for selected tab
 				>
@@ -451,6 +622,20 @@ export function HttpRequestsTable({
 					>
 						Status {renderSortIcon("status")}
 					</button>
+					<button
+						type="button"
+						className="col-span-2 text-left transition-colors flex items-center gap-1"
+						onClick={() => handleSort("sent")}
+					>
+						Sent {renderSortIcon("sent")}
+					</button>
+					<button
+						type="button"
+						className="col-span-2 text-left transition-colors flex items-center gap-1"
+						onClick={() => handleSort("received")}
+					>
+						Received {renderSortIcon("received")}
+					</button>
 					<button
 						type="button"
 						className="col-span-2 text-left transition-colors flex items-center gap-1"
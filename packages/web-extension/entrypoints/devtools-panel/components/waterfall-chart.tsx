@@ -1,5 +1,6 @@
 import { useMemo } from "react";
-import type { SpanNode, SpanTree } from "~/utils/spans";
+import type { LogLevel, LogRecord } from "@/packages/types";
+import { getDbQuery, type SpanNode, type SpanTree } from "~/utils/spans";
 import { cn } from "~/utils/style";
 import { formatDuration } from "~/utils/time";
 
@@ -11,6 +12,8 @@ interface TimingData {
 	method?: string;
 	url?: string;
 	status?: number;
+	// Request failed or was aborted before a response arrived
+	failed?: boolean;
 }
 
 interface WaterfallChartProps {
@@ -20,8 +23,22 @@ interface WaterfallChartProps {
 	padding?: number;
 	selectedRequestId?: string;
 	onSpanClick?: (spanId: string) => void;
+	// Shown as markers in a lane above the bars
+	logs?: LogRecord[];
 }
 
+// Height of the log lane including its padding
+const LOG_LANE_HEIGHT = 16;
+
+const logLevelColors: Record<LogLevel, string> = {
+	trace: "bg-neutral",
+	debug: "bg-neutral",
+	info: "bg-info",
+	warn: "bg-warning",
+	error: "bg-error",
+	fatal: "bg-error",
+};
+
 interface PositionedTiming extends TimingData {
 	row: number;
 	left: number;
@@ -36,7 +53,21 @@ export function spanNodesToTimingData(spans: SpanTree): TimingData[] {
 			nodes = node.children.flatMap((child) => processNode(child));
 		}
 
-		if (
+		const db = getDbQuery(node);
+		if (db && node.serverSpan?.start && node.serverSpan.end?.end) {
+			return [
+				...nodes,
+				{
+					id: node.spanId || "unknown",
+					start: node.serverSpan.start.start,
+					end: node.serverSpan.end.end,
+					method: "DB",
+					url: db.statement ?? node.serverSpan.start.id,
+					failed: node.serverSpan.end.status?.code === "error",
+					label: `${db.system}: ${db.statement ?? node.serverSpan.start.id}`,
+				},
+			];
+		} else if (
 			node.isServerSpan &&
 			node.serverSpan?.start &&
 			node.serverSpan?.end?.end
@@ -53,16 +84,17 @@ export function spanNodesToTimingData(spans: SpanTree): TimingData[] {
 					label: `Server: ${node.serverSpan.start.id || "Unknown"}`,
 				},
 			];
-		} else if (node.request && node.response?.end) {
+		} else if (node.request && (node.response?.end || node.error)) {
 			return [
 				...nodes,
 				{
 					id: node.request.id || "unknown",
 					start: node.request.start,
-					end: node.response.end,
+					end: node.response?.end ?? node.error?.end ?? node.request.start,
 					method: node.request.method,
 					url: node.request.url,
 					status: node.response?.status,
+					failed: Boolean(node.error),
 					label: `${node.request.method} ${node.request.url}`,
 				},
 			];
@@ -85,6 +117,7 @@ export function WaterfallChart({
 	padding = 8,
 	selectedRequestId,
 	onSpanClick,
+	logs = [],
 }: WaterfallChartProps) {
 	const minTime = useMemo(
 		() => Math.floor(Math.min(...data.map((d) => d.start))),
@@ -158,18 +191,36 @@ export function WaterfallChart({
 		return positioned;
 	}, [data, timeRange, minTime]);
 
+	// Logs outside of the shown requests and spans are left out
+	const positionedLogs = useMemo(
+		() =>
+			timeRange === 0
+				? []
+				: logs
+						.filter(
+							(log) => log.timestamp >= minTime && log.timestamp <= maxTime,
+						)
+						.map((log) => ({
+							...log,
+							left: ((log.timestamp - minTime) / timeRange) * 100,
+						})),
+		[logs, minTime, maxTime, timeRange],
+	);
+	const logLaneHeight = positionedLogs.length > 0 ? LOG_LANE_HEIGHT : 0;
+
 	const totalRows =
 		positionedData.length > 0
 			? Math.max(...positionedData.map((d) => d.row), 0) + 1
 			: 0;
 	const chartHeight = Math.max(
 		height,
-		totalRows * (rowHeight + padding) + padding + 40,
+		totalRows * (rowHeight + padding) + padding + 40 + logLaneHeight,
 	); // +40 for time axis
 
 	const getStatusColor = (status?: number, method?: string) => {
 		// Special color for server spans
 		if (method === "SERVER") return "bg-info";
+		if (method === "DB") return "bg-info-light";
 		if (!status) return "bg-neutral-bg";
 		if (status >= 200 && status < 300) return "bg-success-bg";
 		if (status >= 300 && status < 400) return "bg-warning-bg";
@@ -226,6 +277,32 @@ export function WaterfallChart({
 					})}
 				</div>
 
+				{/* Log lane */}
+				{logLaneHeight > 0 && (
+					<div className="relative" style={{ height: `${logLaneHeight}px` }}>
+						{positionedLogs.map((log) => (
+							<button
+								type="button"
+								onClick={() => onSpanClick?.(log.spanId)}
+								key={log.id}
+								className={cn(
+									"absolute w-0.5 cursor-pointer hover:w-1",
+									logLevelColors[log.level],
+									selectedRequestId === log.spanId
+										? "border border-info"
+										: undefined,
+								)}
+								style={{
+									top: `${padding / 2}px`,
+									left: `${log.left}%`,
+									height: `${logLaneHeight - padding}px`,
+								}}
+								title={`${log.level.toUpperCase()} ${log.message}`}
+							/>
+						))}
+					</div>
+				)}
+
 				{/* Timing bars */}
 				<div className="relative">
 					{positionedData.map((item) => (
@@ -235,7 +312,9 @@ export function WaterfallChart({
 							key={item.id}
 							className={cn(
 								"absolute group cursor-pointer",
-								getStatusColor(item.status, item.method),
+								item.failed
+									? "bg-error/40"
+									: getStatusColor(item.status, item.method),
 								selectedRequestId && item.id === selectedRequestId
 									? "border border-info"
 									: undefined,
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { ServerInfo } from "@/packages/types";
+import {
+	CompatibilityIssue,
+	getCompatibilityIssue,
+	MAX_PROTOCOL_VERSION,
+	MIN_PROTOCOL_VERSION,
+} from "../compatibility";
+
+const createServerInfo = (protocolVersion: number): ServerInfo => ({
+	protocolVersion,
+	pluginVersion: "1.0.6",
+	nextVersion: "15.3.0",
+	nodeVersion: "22.0.0",
+	pid: 1234,
+	capabilities: [],
+});
+
+describe("getCompatibilityIssue", () => {
+	it("should accept supported protocol versions", () => {
+		expect(
+			getCompatibilityIssue(createServerInfo(MIN_PROTOCOL_VERSION)),
+		).toBeUndefined();
+		expect(
+			getCompatibilityIssue(createServerInfo(MAX_PROTOCOL_VERSION)),
+		).toBeUndefined();
+	});
+
+	it("should report outdated plugin", () => {
+		expect(getCompatibilityIssue(createServerInfo(0))).toBe(
+			CompatibilityIssue.PluginOutdated,
+		);
+	});
+
+	it("should treat plugin without handshake as outdated", () => {
+		expect(getCompatibilityIssue(null)).toBe(CompatibilityIssue.PluginOutdated);
+	});
+
+	it("should report outdated extension for newer protocol", () => {
+		expect(
+			getCompatibilityIssue(createServerInfo(MAX_PROTOCOL_VERSION + 1)),
+		).toBe(CompatibilityIssue.ExtensionOutdated);
+	});
+});
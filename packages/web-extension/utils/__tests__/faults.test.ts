@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import {
+	createFaultRule,
+	describeFaultEffects,
+	FAULT_PRESETS,
+} from "../faults";
+
+describe("describeFaultEffects", () => {
+	it("should list all effects", () => {
+		expect(
+			describeFaultEffects({ delayMs: 2000, bytesPerSecond: 50_000 }),
+		).toBe("+2s, 50 kB/s");
+		expect(
+			describeFaultEffects({ delayMs: 100, errorStatus: 503, drop: true }),
+		).toBe("+100ms, 503, connection reset");
+	});
+
+	it("should tell when there is no effect", () => {
+		expect(describeFaultEffects({})).toBe("no effect");
+	});
+});
+
+describe("createFaultRule", () => {
+	it("should create an enabled rule named after the preset", () => {
+		const preset = FAULT_PRESETS[0];
+		expect(createFaultRule(preset)).toMatchObject({
+			enabled: true,
+			label: preset.name,
+			...preset.effects,
+		});
+	});
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { formatHeaders, getHeadersIssue, parseHeaders } from "../headers";
+
+describe("parseHeaders", () => {
+	it("should parse one header per line", () => {
+		expect(
+			parseHeaders("Content-Type: application/json\nx-url: http://a.b/c"),
+		).toEqual({
+			"Content-Type": "application/json",
+			"x-url": "http://a.b/c",
+		});
+	});
+
+	it("should ignore lines without a name", () => {
+		expect(parseHeaders("\n: value\ninvalid")).toEqual({});
+	});
+});
+
+describe("formatHeaders", () => {
+	it("should write one header per line", () => {
+		expect(formatHeaders({ a: "1", b: "2" })).toBe("a: 1\nb: 2");
+		expect(formatHeaders()).toBe("");
+	});
+});
+
+describe("getHeadersIssue", () => {
+	it("should accept valid headers", () => {
+		expect(
+			getHeadersIssue({ "Content-Type": "application/json", "x-id": "" }),
+		).toBeUndefined();
+	});
+
+	it("should name the first invalid header", () => {
+		expect(getHeadersIssue({ ok: "1", "Content Type": "text/plain" })).toBe(
+			'Header "Content Type" is invalid',
+		);
+	});
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { RequestSpan } from "@/packages/types";
+import { createReplayRequest, getReplayIssue } from "../replay";
+
+const request: RequestSpan = {
+	id: "request-1",
+	spanId: undefined,
+	traceId: undefined,
+	parentSpan: undefined,
+	start: 100,
+	method: "POST",
+	url: "https://api.example.com/items?token=abc",
+	headers: { authorization: "[REDACTED]" },
+	body: '{"name":"item"}',
+	mockRuleId: "mock-1",
+};
+
+describe("createReplayRequest", () => {
+	it("should keep the request and leave out capture details", () => {
+		expect(createReplayRequest(request)).toEqual({
+			id: "request-1",
+			method: "POST",
+			url: "https://api.example.com/items?token=abc",
+			headers: { authorization: "[REDACTED]" },
+			body: '{"name":"item"}',
+			bodyEncoding: undefined,
+		});
+	});
+});
+
+describe("getReplayIssue", () => {
+	it("should allow requests with masked headers only", () => {
+		expect(
+			getReplayIssue({
+				...request,
+				redacted: { headers: ["authorization"], query: [], body: [] },
+			}),
+		).toBeUndefined();
+	});
+
+	it("should tell about truncated bodies", () => {
+		expect(getReplayIssue({ ...request, bodyTruncated: true })).toBe(
+			"Only the start of the body was captured",
+		);
+	});
+
+	it("should tell about masked query parameters and body values", () => {
+		expect(
+			getReplayIssue({
+				...request,
+				redacted: { headers: [], query: ["token"], body: [] },
+			}),
+		).toBe("Query parameters token are masked");
+		expect(
+			getReplayIssue({
+				...request,
+				redacted: { headers: [], query: [], body: ["$.password"] },
+			}),
+		).toBe("Body values $.password are masked");
+	});
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { MockRule } from "@/packages/types";
+import { parseRuleNumber, upsertRule } from "../rules";
+
+describe("upsertRule", () => {
+	const rule: MockRule = { id: "1", enabled: true, url: "/api/*" };
+
+	it("should replace rule with the same ID in place", () => {
+		const other: MockRule = { id: "2", enabled: true, url: "/other" };
+		expect(upsertRule([rule, other], { ...rule, status: 500 })).toEqual([
+			{ ...rule, status: 500 },
+			other,
+		]);
+	});
+
+	it("should add new rules to the end", () => {
+		const other: MockRule = { id: "2", enabled: false, url: "/other" };
+		expect(upsertRule([rule], other)).toEqual([rule, other]);
+	});
+});
+
+describe("parseRuleNumber", () => {
+	const range = { min: 0, max: 1000 };
+
+	it("should leave empty inputs out", () => {
+		expect(parseRuleNumber("Delay", " ", range)).toEqual({ value: undefined });
+	});
+
+	it("should keep numbers within the range, including the bounds", () => {
+		expect(parseRuleNumber("Delay", "0", range)).toEqual({ value: 0 });
+		expect(parseRuleNumber("Delay", "1000", range)).toEqual({ value: 1000 });
+	});
+
+	it("should report numbers out of the range and other input", () => {
+		const issue = "Delay must be a number from 0 to 1000";
+		expect(parseRuleNumber("Delay", "-1", range)).toEqual({ issue });
+		expect(parseRuleNumber("Delay", "1001", range)).toEqual({ issue });
+		expect(parseRuleNumber("Delay", "abc", range)).toEqual({ issue });
+		expect(parseRuleNumber("Delay", "Infinity", range)).toEqual({ issue });
+	});
+
+	it("should only limit the minimum without a maximum", () => {
+		expect(parseRuleNumber("Speed", "1e9", { min: 1 })).toEqual({
+			value: 1e9,
+		});
+		expect(parseRuleNumber("Speed", "0.5", { min: 1 })).toEqual({
+			issue: "Speed must be a number of at least 1",
+		});
+	});
+});
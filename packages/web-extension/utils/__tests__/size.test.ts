@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { addTransferSizes, formatBytes, getTransferSize } from "../size";
+
+describe("formatBytes", () => {
+	it("should format small sizes in bytes", () => {
+		expect(formatBytes(0)).toBe("0 B");
+		expect(formatBytes(1)).toBe("1 B");
+		expect(formatBytes(999)).toBe("999 B");
+	});
+
+	it("should format larger sizes with a single decimal", () => {
+		expect(formatBytes(1000)).toBe("1 kB");
+		expect(formatBytes(1536)).toBe("1.5 kB");
+		expect(formatBytes(2_500_000)).toBe("2.5 MB");
+		expect(formatBytes(3_000_000_000)).toBe("3 GB");
+	});
+
+	it("should not go beyond gigabytes", () => {
+		expect(formatBytes(5_000_000_000_000)).toBe("5000 GB");
+	});
+});
+
+describe("getTransferSize", () => {
+	it("should add headers and encoded body", () => {
+		expect(
+			getTransferSize({
+				size: { headers: 100, encodedBody: 200, decodedBody: 800 },
+			}),
+		).toBe(300);
+	});
+
+	it("should fall back to decoded body when encoded size is unknown", () => {
+		expect(getTransferSize({ size: { headers: 100, decodedBody: 800 } })).toBe(
+			900,
+		);
+		expect(getTransferSize({ size: { headers: 100 } })).toBe(100);
+	});
+
+	it("should return undefined without size", () => {
+		expect(getTransferSize({})).toBeUndefined();
+		expect(getTransferSize(undefined)).toBeUndefined();
+	});
+});
+
+describe("addTransferSizes", () => {
+	it("should add sent and received bytes separately", () => {
+		expect(
+			addTransferSizes({ sent: 1, received: 10 }, { sent: 2, received: 20 }),
+		).toEqual({ sent: 3, received: 30 });
+	});
+
+	it("should treat unknown sizes as zero once one is known", () => {
+		expect(addTransferSizes({ received: 10 }, undefined, { sent: 2 })).toEqual({
+			sent: 2,
+			received: 10,
+		});
+	});
+
+	it("should keep sizes unknown when none is known", () => {
+		expect(addTransferSizes(undefined, {})).toEqual({
+			sent: undefined,
+			received: undefined,
+		});
+		expect(addTransferSizes()).toEqual({});
+	});
+});
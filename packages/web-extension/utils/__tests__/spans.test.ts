@@ -1,11 +1,19 @@
 import { describe, expect, it } from "vitest";
 import type {
+	ExceptionEvent,
+	LogEvent,
 	RequestSpan,
+	ResponseChunkEvent,
 	ResponseSpan,
 	ServerEvent,
+	ServerSpan,
 	Span,
+	WebSocketMessageEvent,
 } from "@/packages/types";
 import {
+	collectExceptions,
+	collectLogs,
+	filterDbQueries,
 	filterInBetweenSpans,
 	filterServerSpans,
 	filterSpansByUrl,
@@ -190,6 +198,260 @@ describe("mapServerEventToSpanTree", () => {
 		});
 	});
 
+	describe("Streamed Responses", () => {
+		const createChunkEvent = (index: number): ResponseChunkEvent => ({
+			type: "response-chunk",
+			data: {
+				id: "req-1",
+				index,
+				timestamp: 1000 + index,
+				data: `chunk-${index}`,
+				encoding: "utf-8",
+				size: 7,
+			},
+		});
+
+		it("appends chunks to the request node", () => {
+			let result = mapServerEventToSpanTree(
+				{ type: "request", data: createMockRequest() },
+				{},
+			);
+			result = mapServerEventToSpanTree(createChunkEvent(0), result);
+			result = mapServerEventToSpanTree(createChunkEvent(1), result);
+
+			expect(result["req-1"].request).toBeDefined();
+			expect(result["req-1"].chunks?.map((chunk) => chunk.data)).toEqual([
+				"chunk-0",
+				"chunk-1",
+			]);
+		});
+
+		it("ignores chunks replayed during catch-up", () => {
+			let result = mapServerEventToSpanTree(createChunkEvent(0), {});
+			result = mapServerEventToSpanTree(
+				{
+					type: "catch-up",
+					data: [createChunkEvent(0), createChunkEvent(1)],
+				},
+				result,
+			);
+
+			expect(result["req-1"].chunks).toHaveLength(2);
+		});
+	});
+
+	describe("Logs", () => {
+		const createLogEvent = (
+			id: string,
+			spanId: string,
+			timestamp: number,
+		): LogEvent => ({
+			type: "log",
+			data: {
+				id,
+				spanId,
+				traceId: "trace-1",
+				timestamp,
+				level: "info",
+				message: `message ${id}`,
+				source: "console",
+			},
+		});
+
+		it("attaches logs to spans which start later", () => {
+			let result = mapServerEventToSpanTree(
+				createLogEvent("log-1", "span-1", 1500),
+				{},
+			);
+			result = mapServerEventToSpanTree(
+				{ type: "span-start", data: createMockSpan() },
+				result,
+			);
+
+			expect(result["span-1"].isServerSpan).toBe(true);
+			expect(result["span-1"].logs?.map((log) => log.id)).toEqual(["log-1"]);
+		});
+
+		it("ignores logs replayed during catch-up", () => {
+			let result = mapServerEventToSpanTree(
+				createLogEvent("log-1", "span-1", 1500),
+				{},
+			);
+			result = mapServerEventToSpanTree(
+				{
+					type: "catch-up",
+					data: [
+						createLogEvent("log-1", "span-1", 1500),
+						createLogEvent("log-2", "span-1", 1600),
+					],
+				},
+				result,
+			);
+
+			expect(result["span-1"].logs).toHaveLength(2);
+		});
+
+		it("collects logs of descendant spans in order", () => {
+			const childSpan = createMockSpan({
+				id: "child",
+				spanId: "child",
+				parentSpan: { spanId: "span-1", traceId: "trace-1" },
+			});
+			const result = [
+				{ type: "span-start", data: createMockSpan() },
+				{ type: "span-start", data: childSpan },
+				createLogEvent("log-1", "child", 1700),
+				createLogEvent("log-2", "span-1", 1200),
+			].reduce(
+				(tree, event) => mapServerEventToSpanTree(event as ServerEvent, tree),
+				{} as SpanTree,
+			);
+
+			expect(collectLogs(result["span-1"]).map((log) => log.id)).toEqual([
+				"log-2",
+				"log-1",
+			]);
+		});
+	});
+
+	describe("Exceptions", () => {
+		const createExceptionEvent = (
+			id: string,
+			spanId: string | undefined,
+			timestamp: number,
+		): ExceptionEvent => ({
+			type: "exception",
+			data: {
+				id,
+				spanId,
+				traceId: spanId && "trace-1",
+				timestamp,
+				type: "TypeError",
+				message: `message ${id}`,
+				source: "span",
+			},
+		});
+
+		it("attaches exceptions to spans which start later", () => {
+			let result = mapServerEventToSpanTree(
+				createExceptionEvent("exception-1", "span-1", 1500),
+				{},
+			);
+			result = mapServerEventToSpanTree(
+				{ type: "span-start", data: createMockSpan() },
+				result,
+			);
+
+			expect(result["span-1"].isServerSpan).toBe(true);
+			expect(
+				result["span-1"].exceptions?.map((exception) => exception.id),
+			).toEqual(["exception-1"]);
+		});
+
+		it("ignores exceptions without a span", () => {
+			const result = mapServerEventToSpanTree(
+				createExceptionEvent("exception-1", undefined, 1500),
+				{},
+			);
+
+			expect(result).toEqual({});
+		});
+
+		it("collects exceptions of descendant spans without duplicates", () => {
+			const childSpan = createMockSpan({
+				id: "child",
+				spanId: "child",
+				parentSpan: { spanId: "span-1", traceId: "trace-1" },
+			});
+			const result = [
+				{ type: "span-start", data: createMockSpan() },
+				{ type: "span-start", data: childSpan },
+				createExceptionEvent("exception-1", "child", 1700),
+				createExceptionEvent("exception-2", "span-1", 1800),
+				{
+					type: "catch-up",
+					data: [createExceptionEvent("exception-1", "child", 1700)],
+				},
+			].reduce(
+				(tree, event) => mapServerEventToSpanTree(event as ServerEvent, tree),
+				{} as SpanTree,
+			);
+
+			expect(
+				collectExceptions(result["span-1"]).map((exception) => exception.id),
+			).toEqual(["exception-1", "exception-2"]);
+		});
+	});
+
+	describe("WebSocket Connections", () => {
+		const createMessageEvent = (index: number): WebSocketMessageEvent => ({
+			type: "websocket-message",
+			data: {
+				id: "req-1",
+				index,
+				direction: index % 2 === 0 ? "outgoing" : "incoming",
+				timestamp: 1000 + index,
+				data: `message-${index}`,
+				encoding: "utf-8",
+				size: 9,
+			},
+		});
+
+		it("tracks open, messages and close of the connection", () => {
+			let result = mapServerEventToSpanTree(
+				{
+					type: "request",
+					data: createMockRequest({ url: "wss://example.com/live" }),
+				},
+				{},
+			);
+			result = mapServerEventToSpanTree(
+				{
+					type: "websocket-open",
+					data: { id: "req-1", protocol: "chat", timestamp: 1000 },
+				},
+				result,
+			);
+			result = mapServerEventToSpanTree(createMessageEvent(0), result);
+			result = mapServerEventToSpanTree(createMessageEvent(1), result);
+			result = mapServerEventToSpanTree(
+				{
+					type: "websocket-close",
+					data: {
+						id: "req-1",
+						code: 1000,
+						reason: "",
+						wasClean: true,
+						end: 2000,
+					},
+				},
+				result,
+			);
+
+			const { webSocket } = result["req-1"];
+			expect(result["req-1"].request).toBeDefined();
+			expect(webSocket?.open?.protocol).toBe("chat");
+			expect(webSocket?.messages.map((message) => message.direction)).toEqual([
+				"outgoing",
+				"incoming",
+			]);
+			expect(webSocket?.close?.code).toBe(1000);
+		});
+
+		it("ignores messages replayed during catch-up", () => {
+			let result = mapServerEventToSpanTree(createMessageEvent(0), {});
+			result = mapServerEventToSpanTree(
+				{
+					type: "catch-up",
+					data: [createMessageEvent(0), createMessageEvent(1)],
+				},
+				result,
+			);
+
+			expect(result["req-1"].webSocket?.messages).toHaveLength(2);
+		});
+	});
+
 	describe("Parent-Child Relationships", () => {
 		it("establishes parent-child relationship for server spans", () => {
 			const parentSpan = createMockSpan({
@@ -512,6 +774,70 @@ describe("mapServerEventToSpanTree", () => {
 			expect(result["req-1"]).toBeDefined();
 			expect(result["req-1"].parentSpanId).toBeUndefined();
 		});
+
+		it("ignores events-dropped notice during catch-up", () => {
+			const result = mapServerEventToSpanTree(
+				{
+					type: "catch-up",
+					data: [
+						{ type: "events-dropped", data: { count: 10 } },
+						{ type: "request", data: createMockRequest() },
+					],
+				},
+				{},
+			);
+
+			expect(Object.keys(result)).toEqual(["req-1"]);
+		});
+
+		it("attaches request errors to the failed request", () => {
+			let result = mapServerEventToSpanTree(
+				{ type: "request", data: createMockRequest() },
+				{},
+			);
+			result = mapServerEventToSpanTree(
+				{
+					type: "request-error",
+					data: {
+						id: "req-1",
+						code: "ECONNREFUSED",
+						message: "connect ECONNREFUSED 127.0.0.1:4000",
+						aborted: false,
+						end: 2000,
+					},
+				},
+				result,
+			);
+
+			expect(result["req-1"].request).toBeDefined();
+			expect(result["req-1"].response).toBeUndefined();
+			expect(result["req-1"].error?.code).toBe("ECONNREFUSED");
+		});
+
+		it("applies batched events on top of existing tree", () => {
+			const existingSpan = createMockSpan({
+				spanId: "existing",
+				id: "existing",
+			});
+			let result = mapServerEventToSpanTree(
+				{ type: "span-start", data: existingSpan },
+				{},
+			);
+			result = mapServerEventToSpanTree(
+				{
+					type: "batch",
+					data: [
+						{ type: "request", data: createMockRequest() },
+						{ type: "response", data: createMockResponse() },
+					],
+				},
+				result,
+			);
+
+			expect(result.existing).toBeDefined();
+			expect(result["req-1"].request).toBeDefined();
+			expect(result["req-1"].response).toBeDefined();
+		});
 	});
 
 	describe("State Management", () => {
@@ -787,6 +1113,48 @@ describe("filterEmptySpans", () => {
 	});
 });
 
+describe("filterDbQueries", () => {
+	const buildTree = () => {
+		const rootSpan = createMockSpan({ spanId: "root", id: "root" });
+		const querySpan: ServerSpan = {
+			...createMockSpan({
+				spanId: "query",
+				id: "pg.query:SELECT",
+				parentSpan: { spanId: "root", traceId: "trace-1" },
+			}),
+			db: { system: "postgresql", statement: "SELECT * FROM users", rows: 2 },
+		};
+
+		return [
+			{ type: "span-start", data: rootSpan },
+			{ type: "span-start", data: querySpan },
+			{ type: "span-end", data: querySpan },
+			{ type: "span-end", data: rootSpan },
+		].reduce(
+			(tree, event) => mapServerEventToSpanTree(event as ServerEvent, tree),
+			{} as SpanTree,
+		);
+	};
+
+	it("keeps only query spans as root nodes", () => {
+		const filteredTree = filterDbQueries(buildTree());
+
+		expect(Object.keys(filteredTree)).toEqual(["query"]);
+		expect(filteredTree.query.parentSpanId).toBeUndefined();
+		expect(filteredTree.query.serverSpan?.end?.db?.rows).toBe(2);
+	});
+
+	it("keeps query spans in the condensed view", () => {
+		const filteredTree = filterInBetweenSpans(
+			filterSpansWithoutChildren(buildTree()),
+		);
+
+		expect(filteredTree.root.children.map((child) => child.spanId)).toEqual([
+			"query",
+		]);
+	});
+});
+
 describe("filterInBetweenSpans", () => {
 	it("should remove the in-between nodes and return top spans with bottommost children", () => {
 		const rootSpan = createMockSpan({ spanId: "root", id: "root" });
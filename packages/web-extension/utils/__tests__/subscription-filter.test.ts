@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { formatUrlPatterns, parseUrlPatterns } from "../subscription-filter";
+
+describe("parseUrlPatterns", () => {
+	it("should split patterns by commas and newlines", () => {
+		expect(parseUrlPatterns("/api/*, *.example.com/*\n/health")).toEqual([
+			{ url: "/api/*" },
+			{ url: "*.example.com/*" },
+			{ url: "/health" },
+		]);
+	});
+
+	it("should ignore empty patterns", () => {
+		expect(parseUrlPatterns(" , \n")).toEqual([]);
+	});
+});
+
+describe("formatUrlPatterns", () => {
+	it("should join URL patterns", () => {
+		expect(formatUrlPatterns([{ url: "/api/*" }, { url: "/health" }])).toBe(
+			"/api/*, /health",
+		);
+	});
+
+	it("should skip patterns without URL", () => {
+		expect(formatUrlPatterns([{ host: "example.com" }])).toBe("");
+		expect(formatUrlPatterns()).toBe("");
+	});
+});
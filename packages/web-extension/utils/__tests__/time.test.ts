@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { formatDuration } from "../time";
+import { formatDuration, formatPreciseDuration } from "../time";
 
 describe("formatDuration", () => {
 	describe("milliseconds (< 1000ms)", () => {
@@ -83,3 +83,18 @@ describe("formatDuration", () => {
 		});
 	});
 });
+
+describe("formatPreciseDuration", () => {
+	it("should keep fractions of short durations", () => {
+		expect(formatPreciseDuration(0)).toBe("0ms");
+		expect(formatPreciseDuration(0.123)).toBe("0.12ms");
+		expect(formatPreciseDuration(1.5)).toBe("1.5ms");
+		expect(formatPreciseDuration(9.994)).toBe("9.99ms");
+	});
+
+	it("should format longer durations like formatDuration", () => {
+		expect(formatPreciseDuration(10)).toBe("10ms");
+		expect(formatPreciseDuration(10.4)).toBe("10ms");
+		expect(formatPreciseDuration(1500)).toBe("1.5s");
+	});
+});
@@ -0,0 +1,26 @@
+import type { ServerInfo } from "@/packages/types";
+
+// Range of plugin protocol versions the extension understands
+export const MIN_PROTOCOL_VERSION = 1;
+export const MAX_PROTOCOL_VERSION = 2;
+
+export enum CompatibilityIssue {
+	PluginOutdated = "plugin-outdated",
+	ExtensionOutdated = "extension-outdated",
+}
+
+/**
+ * @param serverInfo - `null` when the plugin predates the handshake
+ * @returns `undefined` when the plugin is compatible
+ */
+export const getCompatibilityIssue = (
+	serverInfo: ServerInfo | null,
+): CompatibilityIssue | undefined => {
+	if (!serverInfo || serverInfo.protocolVersion < MIN_PROTOCOL_VERSION) {
+		return CompatibilityIssue.PluginOutdated;
+	}
+	if (serverInfo.protocolVersion > MAX_PROTOCOL_VERSION) {
+		return CompatibilityIssue.ExtensionOutdated;
+	}
+	return undefined;
+};
@@ -0,0 +1,56 @@
+import type { FaultRule } from "@/packages/types";
+import { formatBytes } from "./size";
+import { formatDuration } from "./time";
+import { isTruthy } from "./type";
+
+export type FaultEffects = Pick<
+	FaultRule,
+	"delayMs" | "errorStatus" | "drop" | "bytesPerSecond"
+>;
+
+/**
+ * Latencies and bandwidths follow network throttling presets of Chrome
+ */
+export const FAULT_PRESETS: { name: string; effects: FaultEffects }[] = [
+	{
+		name: "Slow 3G upstream",
+		effects: { delayMs: 2000, bytesPerSecond: 50_000 },
+	},
+	{
+		name: "Fast 3G upstream",
+		effects: { delayMs: 560, bytesPerSecond: 180_000 },
+	},
+	{ name: "Slow response", effects: { delayMs: 5000 } },
+	{ name: "Internal server error", effects: { errorStatus: 500 } },
+	{ name: "Service unavailable", effects: { errorStatus: 503 } },
+	{ name: "Gateway timeout", effects: { delayMs: 10000, errorStatus: 504 } },
+	{ name: "Connection reset", effects: { drop: true } },
+];
+
+export const createFaultRule = (
+	preset: (typeof FAULT_PRESETS)[number] = FAULT_PRESETS[0],
+): FaultRule => ({
+	id: crypto.randomUUID(),
+	enabled: true,
+	url: "",
+	label: preset.name,
+	...preset.effects,
+});
+
+/**
+ * @returns e.g. `+2s, 50 kB/s`
+ */
+export const describeFaultEffects = ({
+	delayMs,
+	errorStatus,
+	drop,
+	bytesPerSecond,
+}: FaultEffects) =>
+	[
+		delayMs && `+${formatDuration(delayMs)}`,
+		errorStatus && `${errorStatus}`,
+		drop && "connection reset",
+		bytesPerSecond && `${formatBytes(bytesPerSecond)}/s`,
+	]
+		.filter(isTruthy)
+		.join(", ") || "no effect";
@@ -0,0 +1,40 @@
+/**
+ * Parses headers written one per line, e.g. `Content-Type: application/json`
+ */
+export const parseHeaders = (value: string): Record<string, string> =>
+	Object.fromEntries(
+		value
+			.split("\n")
+			.map((line) => {
+				const separatorIndex = line.indexOf(":");
+				return separatorIndex > 0
+					? [
+							line.slice(0, separatorIndex).trim(),
+							line.slice(separatorIndex + 1).trim(),
+						]
+					: undefined;
+			})
+			.filter((entry): entry is [string, string] => Boolean(entry?.[0])),
+	);
+
+export const formatHeaders = (headers: Record<string, string> = {}) =>
+	Object.entries(headers)
+		.map(([name, value]) => `${name}: ${value}`)
+		.join("\n");
+
+/**
+ * Requests fail when answered with headers which aren't valid in HTTP, e.g.
+ * names with spaces
+ *
+ * @returns why the headers can't be sent
+ */
+export const getHeadersIssue = (headers: Record<string, string>) => {
+	for (const [name, value] of Object.entries(headers)) {
+		try {
+			new Headers([[name, value]]);
+		} catch {
+			return `Header "${name}" is invalid`;
+		}
+	}
+	return undefined;
+};
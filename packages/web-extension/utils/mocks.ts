@@ -0,0 +1,8 @@
+import type { MockRule } from "@/packages/types";
+
+export const createMockRule = (): MockRule => ({
+	id: crypto.randomUUID(),
+	enabled: true,
+	url: "",
+	status: 200,
+});
@@ -0,0 +1,36 @@
+import type { ReplayRequest, RequestSpan } from "@/packages/types";
+
+export const createReplayRequest = ({
+	id,
+	method,
+	url,
+	headers,
+	body,
+	bodyEncoding,
+}: RequestSpan): ReplayRequest => ({
+	id,
+	method,
+	url,
+	headers,
+	body,
+	bodyEncoding,
+});
+
+/**
+ * Masked headers get their values back by the plugin, the rest of the
+ * request is sent as captured
+ *
+ * @returns why the request wouldn't be sent as the original one
+ */
+export const getReplayIssue = ({ bodyTruncated, redacted }: RequestSpan) => {
+	if (bodyTruncated) {
+		return "Only the start of the body was captured";
+	}
+	if (redacted?.query.length) {
+		return `Query parameters ${redacted.query.join(", ")} are masked`;
+	}
+	if (redacted?.body.length) {
+		return `Body values ${redacted.body.join(", ")} are masked`;
+	}
+	return undefined;
+};
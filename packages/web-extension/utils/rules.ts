@@ -0,0 +1,37 @@
+/**
+ * @returns rules with the given one replaced, or added when it's new
+ */
+export const upsertRule = <R extends { id: string }>(rules: R[], rule: R) =>
+	rules.some(({ id }) => id === rule.id)
+		? rules.map((existing) => (existing.id === rule.id ? rule : existing))
+		: [...rules, rule];
+
+// Longer delays overflow timers of the plugin and fire right away
+export const MAX_DELAY_MS = 2 ** 31 - 1;
+
+const describeRange = (name: string, min: number, max: number | undefined) =>
+	max === undefined
+		? `${name} must be a number of at least ${min}`
+		: `${name} must be a number from ${min} to ${max}`;
+
+/**
+ * Parses a number typed in a rule form, empty inputs leave the field out
+ *
+ * @returns the number, or why it can't be used
+ */
+export const parseRuleNumber = (
+	name: string,
+	input: string,
+	{ min, max }: { min: number; max?: number },
+): { value?: number; issue?: string } => {
+	if (input.trim() === "") return { value: undefined };
+
+	const value = Number(input);
+	if (!Number.isFinite(value) || value < min) {
+		return { issue: describeRange(name, min, max) };
+	}
+	if (max !== undefined && value > max) {
+		return { issue: describeRange(name, min, max) };
+	}
+	return { value };
+};
@@ -0,0 +1,25 @@
+import { storage } from "@wxt-dev/storage";
+import { useCallback, useEffect, useState } from "react";
+
+export const DEFAULT_SERVER_PORT = 3300;
+
+export const serverPortStorage = storage.defineItem<number>("sync:serverPort", {
+	fallback: DEFAULT_SERVER_PORT,
+});
+
+export const useServerPort = () => {
+	const [serverPort, setServerPortValue] = useState<number>(
+		serverPortStorage.fallback,
+	);
+
+	const setServerPort = useCallback((value: number) => {
+		serverPortStorage.setValue(value);
+	}, []);
+
+	useEffect(() => {
+		serverPortStorage.getValue().then(setServerPortValue);
+		return serverPortStorage.watch(setServerPortValue);
+	}, []);
+
+	return [serverPort, setServerPort] as const;
+};
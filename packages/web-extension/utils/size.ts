@@ -0,0 +1,49 @@
+import type { PayloadSize } from "@/packages/types";
+
+const UNITS = ["B", "kB", "MB", "GB"];
+
+export const formatBytes = (bytes: number) => {
+	let value = bytes;
+	let unitIndex = 0;
+	while (value >= 1000 && unitIndex < UNITS.length - 1) {
+		value /= 1000;
+		unitIndex++;
+	}
+
+	return unitIndex === 0
+		? `${Math.round(value)} ${UNITS[unitIndex]}`
+		: `${Number(value.toFixed(1))} ${UNITS[unitIndex]}`;
+};
+
+/**
+ * Bytes transferred over the network, falls back to the decoded body size when
+ * the encoded one isn't known
+ *
+ * @returns `undefined` for spans without size, e.g. from older plugins
+ */
+export const getTransferSize = (span: { size?: PayloadSize } | undefined) =>
+	span?.size
+		? span.size.headers + (span.size.encodedBody ?? span.size.decodedBody ?? 0)
+		: undefined;
+
+export interface TransferSize {
+	sent?: number;
+	received?: number;
+}
+
+const addBytes = (a: number | undefined, b: number | undefined) =>
+	a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+
+/**
+ * Sizes stay `undefined` unless at least one of the added sizes is known
+ */
+export const addTransferSizes = (
+	...sizes: (TransferSize | undefined)[]
+): TransferSize =>
+	sizes.reduce<TransferSize>(
+		(total, size) => ({
+			sent: addBytes(total.sent, size?.sent),
+			received: addBytes(total.received, size?.received),
+		}),
+		{},
+	);
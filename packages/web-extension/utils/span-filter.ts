@@ -5,6 +5,7 @@ export enum SpanFilter {
 	ALL = "All",
 	ROOT_SPANS = "Condensed",
 	REQUESTS_ONLY = "Requests",
+	DB_QUERIES = "Queries",
 }
 
 export const spanFilterStorage = storage.defineItem<SpanFilter>(
@@ -1,20 +1,45 @@
 import type {
+	DbQuery,
+	ExceptionRecord,
+	LogRecord,
+	RequestError,
 	RequestSpan,
+	ResponseChunk,
 	ResponseSpan,
 	ServerEvent,
-	Span,
+	ServerSpan,
+	WebSocketClose,
+	WebSocketMessage,
+	WebSocketOpen,
 } from "@/packages/types";
 import { assertType } from "./type";
 
+export interface WebSocketConnection {
+	open?: WebSocketOpen;
+	// In order of sending or arrival
+	messages: WebSocketMessage[];
+	close?: WebSocketClose;
+}
+
 export type SpanNode = {
 	// Server span data (from span-start/span-end events)
 	serverSpan?: {
-		start?: Span;
-		end?: Span;
+		start?: ServerSpan;
+		end?: ServerSpan;
 		isActive: boolean;
 	};
 	request?: RequestSpan;
 	response?: ResponseSpan;
+	// Set instead of response when the request failed or was aborted
+	error?: RequestError;
+	// Body chunks of streamed responses in order of arrival
+	chunks?: ResponseChunk[];
+	// Set for WebSocket connections, the request is their handshake
+	webSocket?: WebSocketConnection;
+	// Logs written while the server span was active, in order of arrival
+	logs?: LogRecord[];
+	// Exceptions recorded on the server span or thrown while it was active
+	exceptions?: ExceptionRecord[];
 	// Hierarchical structure
 	children: SpanNode[];
 	// Metadata for organization
@@ -25,13 +50,21 @@ export type SpanNode = {
 
 export type SpanTree = Record<string, SpanNode>;
 
+/**
+ * Row counts are only known once the span ends
+ *
+ * @returns `undefined` for nodes which aren't database queries
+ */
+export const getDbQuery = (node: SpanNode): DbQuery | undefined =>
+	node.serverSpan?.end?.db ?? node.serverSpan?.start?.db;
+
 // Temporary storage for span-end events that arrive before span-start
-const pendingEndEvents = new Map<string, Span>();
+const pendingEndEvents = new Map<string, ServerSpan>();
 
 /**
  * Builds and maintains a hierarchical tree of spans based on server events.
  *
- * This function processes different types of server events (span-start, span-end, request, response, catch-up)
+ * This function processes different types of server events (span-start, span-end, request, response, batch, catch-up)
  * and organizes them into a tree structure where:
  * - Server spans (span-start/span-end events) form the hierarchical backbone
  * - Request/response pairs are organized under their corresponding server spans
@@ -41,7 +74,7 @@ const pendingEndEvents = new Map<string, Span>();
  * The tree structure allows for visualizing the complete request flow, showing how client-side requests
  * trigger server-side operations and their resulting network activity in a hierarchical format.
  *
- * @param event - The server event to process (span-start, span-end, request, response, or catch-up)
+ * @param event - The server event to process (span-start, span-end, request, response, batch or catch-up)
  * @param spanTree - The current state of the span tree to update
  * @returns Updated span tree with the new event incorporated
  */
@@ -210,8 +243,90 @@ export const mapServerEventToSpanTree = (
 				}
 			}
 			break;
+		case "response-chunk": {
+			const id = data.id;
+			const node = spanTree[id] || {
+				children: [],
+				isServerSpan: false,
+			};
+			// Chunks may be replayed during catch-up, avoid duplicates
+			if ((node.chunks?.at(-1)?.index ?? -1) < data.index) {
+				node.chunks = [...(node.chunks ?? []), data];
+			}
+			spanTree[id] = node;
+			break;
+		}
+		case "request-error": {
+			const node = spanTree[data.id] || {
+				children: [],
+				isServerSpan: false,
+			};
+			node.error = data;
+			spanTree[data.id] = node;
+			break;
+		}
+		case "websocket-open":
+		case "websocket-message":
+		case "websocket-close": {
+			const node = spanTree[data.id] || {
+				children: [],
+				isServerSpan: false,
+			};
+			const webSocket: WebSocketConnection = node.webSocket ?? {
+				messages: [],
+			};
+			if (type === "websocket-open") {
+				webSocket.open = data;
+			} else if (type === "websocket-close") {
+				webSocket.close = data;
+			} else if ((webSocket.messages.at(-1)?.index ?? -1) < data.index) {
+				// Messages may be replayed during catch-up, avoid duplicates
+				webSocket.messages = [...webSocket.messages, data];
+			}
+			node.webSocket = { ...webSocket };
+			spanTree[data.id] = node;
+			break;
+		}
+		case "log": {
+			// Logs may arrive before their span starts
+			const node = spanTree[data.spanId] || {
+				children: [],
+				isServerSpan: false,
+				spanId: data.spanId,
+			};
+			// Logs may be replayed during catch-up, avoid duplicates
+			if (!node.logs?.some((log) => log.id === data.id)) {
+				node.logs = [...(node.logs ?? []), data];
+			}
+			spanTree[data.spanId] = node;
+			break;
+		}
+		case "exception": {
+			// Exceptions outside of any span have no node to be shown on
+			if (!data.spanId) break;
+			const node = spanTree[data.spanId] || {
+				children: [],
+				isServerSpan: false,
+				spanId: data.spanId,
+			};
+			// Exceptions may be replayed during catch-up, avoid duplicates
+			if (!node.exceptions?.some((exception) => exception.id === data.id)) {
+				node.exceptions = [...(node.exceptions ?? []), data];
+			}
+			spanTree[data.spanId] = node;
+			break;
+		}
+		case "hello":
+		case "capture-state":
+		case "mock-rules":
+		case "fault-rules":
+		case "replay-error":
+		case "events-dropped":
+			// Informational only, nothing to add to the tree
+			break;
+		case "batch":
 		case "catch-up":
-			// During catch-up, process an array of events to rebuild the span tree
+			// Process an array of events to rebuild or extend the span tree at once
 			spanTree = data.reduce(
 				(prevTree, event) => mapServerEventToSpanTree(event, prevTree),
 				spanTree,
@@ -230,7 +345,11 @@ export const filterSpansWithoutChildren = (spanTree: SpanTree): SpanTree => {
 	const filterChildren = (children: SpanNode[]): SpanNode[] => {
 		return children
 			.filter(
-				(child) => child.children.length > 0 || child.request || child.response,
+				(child) =>
+					child.children.length > 0 ||
+					child.request ||
+					child.response ||
+					getDbQuery(child),
 			)
 			.map((child) => {
 				child.children = filterChildren(child.children);
@@ -239,7 +358,12 @@ export const filterSpansWithoutChildren = (spanTree: SpanTree): SpanTree => {
 	};
 
 	for (const [id, node] of Object.entries(spanTree)) {
-		if (node.children.length > 0 || node.request || node.response) {
+		if (
+			node.children.length > 0 ||
+			node.request ||
+			node.response ||
+			getDbQuery(node)
+		) {
 			node.children = filterChildren(node.children);
 			filtered[id] = node;
 		}
@@ -272,8 +396,8 @@ export const filterInBetweenSpans = (spanTree: SpanTree): SpanTree => {
 
 	// Helper function to find all leaf nodes (nodes with request/response or no children)
 	const findLeafNodes = (node: SpanNode): SpanNode[] => {
-		// If this node has request/response, it's a leaf
-		if (node.request || node.response) {
+		// If this node has request/response or is a query, it's a leaf
+		if (node.request || node.response || getDbQuery(node)) {
 			return [node];
 		}
 
@@ -381,6 +505,36 @@ export const filterInBetweenSpans = (spanTree: SpanTree): SpanTree => {
 	return filtered;
 };
 
+/**
+ * @returns logs of the node and all its descendants, oldest first
+ */
+export const collectLogs = (node: SpanNode): LogRecord[] =>
+	[...(node.logs ?? []), ...node.children.flatMap(collectLogs)].sort(
+		(a, b) => a.timestamp - b.timestamp,
+	);
+
+/**
+ * @returns exceptions of the node and all its descendants, oldest first
+ */
+export const collectExceptions = (node: SpanNode): ExceptionRecord[] =>
+	[
+		...(node.exceptions ?? []),
+		...node.children.flatMap(collectExceptions),
+	].sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Keeps database queries only, as a flat list without their parent spans
+ */
+export const filterDbQueries = (spanTree: SpanTree): SpanTree =>
+	Object.fromEntries(
+		Object.entries(spanTree)
+			.filter(([, node]) => getDbQuery(node))
+			.map(([id, node]) => [
+				id,
+				{ ...node, parentSpanId: undefined, children: [] },
+			]),
+	);
+
 export const filterServerSpans = (spanTree: SpanTree): SpanTree => {
 	return Object.fromEntries(
 		Object.entries(spanTree).filter(([, value]) => {
@@ -424,15 +578,12 @@ export const filterSpansByUrl = (
 
 	// Helper function to check if a node matches the URL filter
 	const nodeMatchesFilter = (node: SpanNode): boolean => {
-		return !!(
-			node.serverSpan?.start?.id.toLowerCase().includes(filterLower) ||
-			node.request?.url?.toLowerCase().includes(filterLower) ||
-			node.children.some(
-				(child) =>
-					child.serverSpan?.start?.id.toLowerCase().includes(filterLower) ||
-					child.request?.url?.toLowerCase().includes(filterLower),
-			)
-		);
+		const matches = (candidate: SpanNode) =>
+			candidate.serverSpan?.start?.id.toLowerCase().includes(filterLower) ||
+			candidate.request?.url?.toLowerCase().includes(filterLower) ||
+			getDbQuery(candidate)?.statement?.toLowerCase().includes(filterLower);
+
+		return !!(matches(node) || node.children.some(matches));
 	};
 
 	// Helper function to get all ancestors of a node
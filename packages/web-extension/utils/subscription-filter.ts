@@ -0,0 +1,45 @@
+import { storage } from "@wxt-dev/storage";
+import { useCallback, useEffect, useState } from "react";
+import type { TrafficFilter, TrafficPattern } from "@/packages/types";
+
+/**
+ * Filter pushed to the plugin server so it only sends matching events
+ */
+export const subscriptionFilterStorage = storage.defineItem<TrafficFilter>(
+	"sync:subscriptionFilter",
+	{
+		fallback: {},
+	},
+);
+
+/**
+ * Parses comma or newline separated URL patterns, e.g. `/api/*, *.example.com/*`
+ */
+export const parseUrlPatterns = (value: string): TrafficPattern[] =>
+	value
+		.split(/[,\n]/)
+		.map((pattern) => pattern.trim())
+		.filter(Boolean)
+		.map((url) => ({ url }));
+
+export const formatUrlPatterns = (patterns: TrafficPattern[] = []) =>
+	patterns
+		.map((pattern) => pattern.url)
+		.filter(Boolean)
+		.join(", ");
+
+export const useSubscriptionFilter = () => {
+	const [subscriptionFilter, setSubscriptionFilterValue] =
+		useState<TrafficFilter>(subscriptionFilterStorage.fallback);
+
+	const setSubscriptionFilter = useCallback((value: TrafficFilter) => {
+		subscriptionFilterStorage.setValue(value);
+	}, []);
+
+	useEffect(() => {
+		subscriptionFilterStorage.getValue().then(setSubscriptionFilterValue);
+		return subscriptionFilterStorage.watch(setSubscriptionFilterValue);
+	}, []);
+
+	return [subscriptionFilter, setSubscriptionFilter] as const;
+};
@@ -10,3 +10,11 @@ export const formatDuration = (durationMs: number) => {
 		return `${Number((durationMs / (1000 * 60 * 60)).toFixed(2))}h`;
 	}
 };
+
+/**
+ * Keeps fractions of short durations which would round to a few milliseconds
+ */
+export const formatPreciseDuration = (durationMs: number) =>
+	durationMs < 10
+		? `${Number(durationMs.toFixed(2))}ms`
+		: formatDuration(durationMs);
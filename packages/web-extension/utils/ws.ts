@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import type { ClientEvent, ServerEvent } from "@/packages/types";
+import type { ClientEvent, ResumeEvent, ServerEvent } from "@/packages/types";
 
 export enum ConnectionStatus {
 	Connecting = "connecting",
@@ -8,7 +8,14 @@ export enum ConnectionStatus {
 	Error = "error",
 }
 
-export const useWS = (url: string, onMessage: (event: ServerEvent) => void) => {
+/**
+ * @param openEvents - sent on every (re)connect before asking for missed events
+ */
+export const useWS = (
+	url: string,
+	onMessage: (event: ServerEvent) => void,
+	openEvents: ClientEvent[] = [],
+) => {
 	const wsRef = useRef<WebSocket | null>(null);
 	const [reconnectAttempt, setReconnectAttempt] = useState(0);
 	const [status, setStatus] = useState<ConnectionStatus>(
@@ -16,12 +23,18 @@ export const useWS = (url: string, onMessage: (event: ServerEvent) => void) => {
 	);
 
 	const messageHandlerRef = useRef(onMessage);
+	// Position in the server history, sent on reconnect to get only missed events
+	const resumeRef = useRef<ResumeEvent["data"]>({});
 
 	messageHandlerRef.current = onMessage;
+	const openEventsRef = useRef(openEvents);
+	openEventsRef.current = openEvents;
 
 	useEffect(() => {
 		let ws: WebSocket;
 		let reconnectTimer: NodeJS.Timeout | null = null;
+		// Another URL likely means another server, start from scratch
+		resumeRef.current = {};
 
 		function connect() {
 			setStatus(ConnectionStatus.Connecting);
@@ -32,6 +45,15 @@ export const useWS = (url: string, onMessage: (event: ServerEvent) => void) => {
 			ws.onopen = () => {
 				setStatus(ConnectionStatus.Connected);
 				setReconnectAttempt(0);
+				for (const openEvent of openEventsRef.current) {
+					ws.send(JSON.stringify(openEvent));
+				}
+				ws.send(
+					JSON.stringify({
+						type: "resume",
+						data: resumeRef.current,
+					} satisfies ClientEvent),
+				);
 			};
 			ws.onclose = () => {
 				setStatus(ConnectionStatus.Disconnected);
@@ -41,7 +63,20 @@ export const useWS = (url: string, onMessage: (event: ServerEvent) => void) => {
 
 			ws.onmessage = (event) => {
 				try {
-					const parsedEvent = JSON.parse(event.data) as ServerEvent;
+					const parsedEvent = JSON.parse(event.data) as ServerEvent & {
+						seq?: number;
+					};
+					if (parsedEvent.type === "catch-up") {
+						resumeRef.current = { sessionId: parsedEvent.sessionId };
+					}
+					// Batched events are numbered individually
+					const seq =
+						parsedEvent.type === "batch"
+							? (parsedEvent.data.at(-1) as { seq?: number } | undefined)?.seq
+							: parsedEvent.seq;
+					if (seq !== undefined) {
+						resumeRef.current = { ...resumeRef.current, lastSeq: seq };
+					}
 					messageHandlerRef.current(parsedEvent);
 				} catch (e) {
 					console.error("Error parsing WebSocket message:", e);
@@ -51,6 +86,8 @@ export const useWS = (url: string, onMessage: (event: ServerEvent) => void) => {
 
 		connect();
 		return () => {
+			// Prevent reconnecting to the previous URL once the socket closes
+			if (wsRef.current) wsRef.current.onclose = null;
 			wsRef.current?.close();
 			if (reconnectTimer) clearTimeout(reconnectTimer);
 		};